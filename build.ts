@@ -135,9 +135,22 @@ const result = await Bun.build({
   ...cliConfig,
 });
 
+// The embedding worker is loaded by URL at runtime, so it gets its own bundle
+const workerResult = await Bun.build({
+  entrypoints: [path.resolve("src/utils/embeddingWorker.ts")],
+  outdir,
+  naming: "embedding-worker.js",
+  minify: true,
+  target: "browser",
+  format: "esm",
+  define: {
+    "process.env.NODE_ENV": JSON.stringify("production"),
+  },
+});
+
 const end = performance.now();
 
-const outputTable = result.outputs.map(output => ({
+const outputTable = [...result.outputs, ...workerResult.outputs].map(output => ({
   File: path.relative(process.cwd(), output.path),
   Type: output.kind,
   Size: formatFileSize(output.size),
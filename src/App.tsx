@@ -7,8 +7,17 @@ import SettingsPanel from './components/SettingsPanel';
 import ModelLoadingIndicator from './components/ModelLoadingIndicator';
 import ProjectSidebar from './components/ProjectSidebar';
 import ProjectModal from './components/ProjectModal';
+import RehomeSuggestion from './components/RehomeSuggestion';
+import PlacementReview from './components/PlacementReview';
+import NodeInspector from './components/NodeInspector';
+import ReorganizeReview from './components/ReorganizeReview';
+import ExpandPanel from './components/ExpandPanel';
+import ChatPanel from './components/ChatPanel';
+import EmbeddingMismatchWarning from './components/EmbeddingMismatchWarning';
 import { useProjectStore } from './store/projectStore';
 import { useGraphStore } from './store/graphStore';
+import { useSettingsStore } from './store/settingsStore';
+import { fetchServerProvider } from './utils/api';
 
 export default function App() {
   const activeProjectId = useProjectStore((state) => state.activeProjectId);
@@ -30,6 +39,29 @@ export default function App() {
     }
   }, [activeProjectId, setGraphState, clearHistory]);
 
+  // Sync projects with the server once local projects are loaded, and whenever the window regains focus
+  useEffect(() => {
+    const sync = () => useProjectStore.getState().syncWithServer();
+    const unsubscribe = useProjectStore.persist.onFinishHydration(sync);
+    if (useProjectStore.persist.hasHydrated()) sync();
+
+    window.addEventListener('focus', sync);
+    return () => {
+      unsubscribe();
+      window.removeEventListener('focus', sync);
+    };
+  }, []);
+
+  // Ask the server which embedding provider and model it uses
+  useEffect(() => {
+    const refresh = () =>
+      fetchServerProvider().then((provider) => useSettingsStore.getState().setServerProvider(provider));
+    refresh();
+
+    window.addEventListener('focus', refresh);
+    return () => window.removeEventListener('focus', refresh);
+  }, []);
+
   return (
     <div className="h-screen w-screen bg-gradient-to-br from-gray-950 via-slate-900 to-gray-950 font-sans overflow-hidden">
       {/* Ambient background effects */}
@@ -46,6 +78,13 @@ export default function App() {
         <SettingsPanel />
         <ModelLoadingIndicator />
         <ProjectModal />
+        <RehomeSuggestion />
+        <PlacementReview />
+        <NodeInspector />
+        <ReorganizeReview />
+        <ExpandPanel />
+        <ChatPanel />
+        <EmbeddingMismatchWarning />
       </ReactFlowProvider>
     </div>
   );
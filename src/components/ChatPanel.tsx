@@ -0,0 +1,198 @@
+import { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Check, Loader2, MessageSquare, Send, X } from 'lucide-react';
+import { useGraphStore } from '../store/graphStore';
+import { useProjectStore } from '../store/projectStore';
+import { sendChat } from '../utils/api';
+import type { ChatAction, ChatMessage, ExportData } from '../types';
+
+/**
+ * Side panel for asking questions about the whole graph. Replies can propose edits,
+ * each applied with one click through the usual add/rename/move actions (so undo works).
+ */
+export default function ChatPanel() {
+  const { isChatOpen, setChatOpen, nodes, exportToJson, addNode, updateNodeLabel, moveNode } = useGraphStore();
+  const activeProjectId = useProjectStore((state) => state.activeProjectId);
+
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [applied, setApplied] = useState<Set<string>>(new Set());
+  const [input, setInput] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // A conversation belongs to one project
+  useEffect(() => {
+    setMessages([]);
+    setApplied(new Set());
+    setError(null);
+  }, [activeProjectId]);
+
+  useEffect(() => {
+    if (isChatOpen) inputRef.current?.focus();
+  }, [isChatOpen]);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+  }, [messages, isSending]);
+
+  const labelOf = (id: string) => nodes.find(n => n.id === id)?.data.label;
+
+  const describe = (action: ChatAction): string => {
+    switch (action.type) {
+      case 'add':
+        return `Add "${action.label}" under ${labelOf(action.parentId) ?? '?'}`;
+      case 'rename':
+        return `Rename ${labelOf(action.nodeId) ?? '?'} to "${action.label}"`;
+      case 'move':
+        return `Move ${labelOf(action.nodeId) ?? '?'} under ${labelOf(action.parentId) ?? '?'}`;
+    }
+  };
+
+  // Nodes can be deleted or moved after the reply came in
+  const canApply = (action: ChatAction): boolean => {
+    switch (action.type) {
+      case 'add':
+        return !!labelOf(action.parentId);
+      case 'rename':
+        return !!labelOf(action.nodeId);
+      case 'move':
+        return !!labelOf(action.nodeId) && !!labelOf(action.parentId);
+    }
+  };
+
+  const applyAction = async (action: ChatAction, key: string) => {
+    if (action.type === 'add') {
+      await addNode(action.label, action.parentId, false);
+    } else if (action.type === 'rename') {
+      updateNodeLabel(action.nodeId, action.label);
+    } else if (!moveNode(action.nodeId, action.parentId)) {
+      setError(`Can't move ${labelOf(action.nodeId)} under ${labelOf(action.parentId)}`);
+      return;
+    }
+    setApplied((prev) => new Set(prev).add(key));
+  };
+
+  const send = async () => {
+    const content = input.trim();
+    if (!content || isSending) return;
+
+    const next: ChatMessage[] = [...messages, { role: 'user', content }];
+    setMessages(next);
+    setInput('');
+    setError(null);
+    setIsSending(true);
+
+    try {
+      const { reply, actions } = await sendChat(next, exportToJson() as ExportData);
+      setMessages([...next, { role: 'assistant', content: reply, actions }]);
+    } catch (err) {
+      console.error('Chat failed:', err);
+      setError('No reply, try again');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isChatOpen && (
+        <motion.div
+          initial={{ opacity: 0, x: 20 }}
+          animate={{ opacity: 1, x: 0 }}
+          exit={{ opacity: 0, x: 20 }}
+          className="fixed top-16 right-4 bottom-36 w-80 z-40 bg-gray-900/95 backdrop-blur-xl border border-white/10 rounded-xl shadow-2xl flex flex-col"
+        >
+          <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+            <div className="flex items-center gap-2 text-sm font-medium text-white/80">
+              <MessageSquare className="w-4 h-4" />
+              Chat
+            </div>
+            <button
+              onClick={() => setChatOpen(false)}
+              className="p-1 hover:bg-white/10 rounded transition-colors cursor-pointer"
+              aria-label="Close chat"
+            >
+              <X className="w-4 h-4 text-white/40" />
+            </button>
+          </div>
+
+          <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 space-y-3 text-sm">
+            {messages.length === 0 && (
+              <p className="text-white/40">
+                Ask about this graph, e.g. "What's missing under Marketing?" or "Suggest a better grouping".
+              </p>
+            )}
+
+            {messages.map((message, i) => (
+              <div key={i} className={message.role === 'user' ? 'flex justify-end' : ''}>
+                <div
+                  className={`rounded-lg px-3 py-2 whitespace-pre-wrap break-words ${
+                    message.role === 'user' ? 'max-w-[85%] bg-storm-600/30 text-white' : 'bg-white/5 text-white/80'
+                  }`}
+                >
+                  {message.content}
+                </div>
+
+                {message.actions && message.actions.length > 0 && (
+                  <div className="mt-2 space-y-1">
+                    {message.actions.map((action, j) => {
+                      const key = `${i}:${j}`;
+                      const isApplied = applied.has(key);
+                      return (
+                        <button
+                          key={key}
+                          onClick={() => applyAction(action, key)}
+                          disabled={isApplied || !canApply(action)}
+                          className="w-full flex items-center gap-2 px-2 py-1.5 rounded-lg border border-white/10 bg-white/5 hover:bg-white/10 text-left text-xs text-white/70 transition-colors cursor-pointer disabled:cursor-default disabled:opacity-50 disabled:hover:bg-white/5"
+                        >
+                          {isApplied && <Check className="w-3 h-3 shrink-0 text-green-400" />}
+                          <span className="truncate">{describe(action)}</span>
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            ))}
+
+            {isSending && (
+              <div className="flex items-center gap-2 text-white/40">
+                <Loader2 className="w-3 h-3 animate-spin" />
+                Thinking...
+              </div>
+            )}
+            {error && <p className="text-xs text-red-300/90">{error}</p>}
+          </div>
+
+          <div className="flex items-center gap-2 p-3 border-t border-white/10">
+            <input
+              ref={inputRef}
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  send();
+                } else if (e.key === 'Escape') {
+                  setChatOpen(false);
+                }
+              }}
+              placeholder="Ask about your ideas..."
+              className="flex-1 bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white placeholder-white/30 outline-none focus:border-storm-500/50"
+            />
+            <button
+              onClick={send}
+              disabled={!input.trim() || isSending}
+              className="p-2 rounded-lg bg-storm-600 hover:bg-storm-700 text-white transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-default"
+              aria-label="Send"
+            >
+              <Send className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { useSettingsStore } from '../store/settingsStore';
+import { useProjectStore } from '../store/projectStore';
+import type { ClusteringSettings, ClusteringStrategy } from '../types';
+
+const STRATEGIES: Array<{ id: ClusteringStrategy; name: string; description: string }> = [
+  { id: 'hybrid', name: 'Hybrid', description: 'Best leaf vs best cluster head (default)' },
+  { id: 'nearest', name: 'Nearest node', description: 'Most similar node, ignoring clusters' },
+  { id: 'anchor', name: 'Topics only', description: 'Only attach directly to topics' },
+  { id: 'centroid', name: 'Centroid', description: 'Score branches by their average meaning' },
+];
+
+/**
+ * Auto-organize threshold, cluster weighting and strategy, for all projects
+ * or as an override for the active one
+ */
+export default function ClusteringSettingsSection() {
+  const { clustering, setClustering, resetClustering } = useSettingsStore();
+  const { activeProjectId, setProjectClustering } = useProjectStore();
+  const override = useProjectStore((state) =>
+    state.activeProjectId ? state.projects[state.activeProjectId]?.data.clustering : undefined
+  );
+  const [scope, setScope] = useState<'global' | 'project'>(override ? 'project' : 'global');
+
+  const isProjectScope = scope === 'project' && !!activeProjectId;
+  const values: ClusteringSettings = isProjectScope ? { ...clustering, ...override } : clustering;
+  const usesClusterWeight = values.strategy === 'hybrid' || values.strategy === 'anchor';
+
+  const update = (change: Partial<ClusteringSettings>) => {
+    if (isProjectScope) {
+      setProjectClustering(activeProjectId, { ...override, ...change });
+    } else {
+      setClustering(change);
+    }
+  };
+
+  const reset = () => {
+    if (isProjectScope) {
+      setProjectClustering(activeProjectId, undefined);
+    } else {
+      resetClustering();
+    }
+  };
+
+  return (
+    <section>
+      <h3 className="text-sm font-medium text-white/80 uppercase tracking-wider mb-3">
+        Auto-organize
+      </h3>
+
+      <div className="space-y-4 p-4 rounded-xl bg-white/5 border border-white/10">
+        {/* Scope */}
+        <div className="flex gap-2">
+          {(['global', 'project'] as const).map((s) => (
+            <button
+              key={s}
+              onClick={() => setScope(s)}
+              disabled={s === 'project' && !activeProjectId}
+              className={`flex-1 px-3 py-1.5 rounded-lg border text-xs transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed ${
+                scope === s
+                  ? 'bg-storm-600/20 border-storm-500/50 text-white'
+                  : 'bg-white/5 border-white/10 text-white/60 hover:bg-white/10'
+              }`}
+            >
+              {s === 'global' ? 'All projects' : 'This project'}
+            </button>
+          ))}
+        </div>
+        {isProjectScope && (
+          <p className="text-xs text-white/40 -mt-2">
+            {override ? 'This project overrides the global settings.' : 'Changes here only apply to this project.'}
+          </p>
+        )}
+
+        {/* Strategy */}
+        <div className="grid grid-cols-2 gap-2">
+          {STRATEGIES.map((strategy) => (
+            <button
+              key={strategy.id}
+              onClick={() => update({ strategy: strategy.id })}
+              className={`p-2.5 rounded-lg border text-left transition-colors cursor-pointer ${
+                values.strategy === strategy.id
+                  ? 'bg-storm-600/20 border-storm-500/50'
+                  : 'bg-white/5 border-white/10 hover:bg-white/10'
+              }`}
+            >
+              <div className="text-sm text-white">{strategy.name}</div>
+              <div className="text-xs text-white/40 mt-0.5">{strategy.description}</div>
+            </button>
+          ))}
+        </div>
+
+        {/* Threshold */}
+        <label className="block">
+          <div className="flex justify-between text-xs text-white/60 mb-1">
+            <span>Similarity threshold</span>
+            <span className="font-mono">{values.threshold.toFixed(2)}</span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={0.95}
+            step={0.05}
+            value={values.threshold}
+            onChange={(e) => update({ threshold: Number(e.target.value) })}
+            className="w-full accent-storm-500"
+          />
+          <p className="text-xs text-white/40 mt-1">
+            Below this, an idea starts a new topic. Models differ: raise it if everything clumps together.
+          </p>
+        </label>
+
+        {/* Cluster weight */}
+        {usesClusterWeight && (
+          <label className="block">
+            <div className="flex justify-between text-xs text-white/60 mb-1">
+              <span>Cluster weight</span>
+              <span className="font-mono">{values.clusterWeight.toFixed(2)}</span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={values.clusterWeight}
+              onChange={(e) => update({ clusterWeight: Number(e.target.value) })}
+              className="w-full accent-storm-500"
+            />
+            <p className="text-xs text-white/40 mt-1">
+              How much a branch's overall meaning counts against its own label.
+            </p>
+          </label>
+        )}
+
+        <button
+          onClick={reset}
+          className="flex items-center gap-1.5 text-xs text-white/50 hover:text-white transition-colors cursor-pointer"
+        >
+          <RotateCcw size={12} />
+          {isProjectScope ? 'Use the global settings' : 'Reset to defaults'}
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -17,13 +17,28 @@ import {
   Download,
   Folder,
   Plus,
-  Upload
+  Upload,
+  Link2,
+  Unlink,
+  ArrowRightLeft,
+  FolderInput,
+  ClipboardPaste,
+  Info,
+  Network,
+  Pin,
+  Tag,
+  Sparkles,
+  MessageSquare,
+  ScrollText
 } from 'lucide-react';
 import { useGraphStore } from '../store/graphStore';
 import { useProjectStore } from '../store/projectStore';
 import { useReactFlow } from '@xyflow/react';
 import { getSuggestions } from '../utils/api';
+import { buildSuggestionContext } from '../utils/suggestionContext';
 import { formatRelativeTime } from '../utils/projectUtils';
+import { isCrossLink, getSubtreeIds } from '../utils/edges';
+import { fuzzyScore } from '../utils/fuzzy';
 import { KEYBINDS, matchesKeybind, isTypingInInput } from '../config/keybinds';
 import KeybindHint from './KeybindHint';
 
@@ -38,12 +53,31 @@ export default function CommandPalette() {
     setSearchQuery,
     exportToJson,
     exportToMarkdown,
+    exportToMermaid,
     resetGraph,
     addNode,
     layoutGraph,
     focusInputBar,
     setState: setGraphState,
     clearHistory,
+    edges,
+    nodePicker,
+    openNodePicker,
+    closeNodePicker,
+    addCrossLink,
+    removeCrossLink,
+    moveNode,
+    rehomeSuggestion,
+    acceptRehomeSuggestion,
+    reembedJob,
+    reembedProject,
+    setInspectorOpen,
+    setChatOpen,
+    togglePinned,
+    proposeReorganize,
+    nameTopics,
+    summarizeNode,
+    openExpansion,
   } = useGraphStore();
 
   const { fitView, zoomIn, zoomOut, setCenter } = useReactFlow();
@@ -66,13 +100,15 @@ export default function CommandPalette() {
         inputRef.current?.focus();
       }, 50);
     } else {
+      // Leave node picker mode when the palette closes
+      closeNodePicker();
       // Refocus the main input bar when command palette closes
       // Delay to allow exit animation to complete
       setTimeout(() => {
         focusInputBar();
       }, 100);
     }
-  }, [isCommandPaletteOpen, focusInputBar]);
+  }, [isCommandPaletteOpen, focusInputBar, closeNodePicker]);
 
   // Global keyboard shortcut
   useEffect(() => {
@@ -100,6 +136,46 @@ export default function CommandPalette() {
   const isNodesOnlyMode = searchQuery.startsWith('>');
   const actualQuery = isNodesOnlyMode ? searchQuery.slice(1).trim() : searchQuery;
 
+  // Node picker mode: pick the target of a link or move.
+  // For links, text after '|' becomes the link label.
+  const pickerSourceNode = nodePicker ? nodes.find(n => n.id === nodePicker.sourceId) : undefined;
+  const isPickerMode = !!pickerSourceNode;
+  const isLinkMode = isPickerMode && nodePicker?.action === 'link';
+  const [pickerQuery = '', ...linkLabelParts] = isLinkMode ? searchQuery.split('|') : [searchQuery];
+  const linkLabel = linkLabelParts.join('|').trim();
+
+  // Nodes already cross-linked with the link source (selecting them removes the link)
+  const linkedNodeIds = useMemo(() => {
+    const linked = new Set<string>();
+    if (nodePicker?.action !== 'link') return linked;
+    edges.forEach(e => {
+      if (!isCrossLink(e)) return;
+      if (e.source === nodePicker.sourceId) linked.add(e.target);
+      if (e.target === nodePicker.sourceId) linked.add(e.source);
+    });
+    return linked;
+  }, [edges, nodePicker]);
+
+  const pickerTargets = useMemo(() => {
+    if (!nodePicker) return [];
+
+    // A node can't move under itself, its descendants or its current parent
+    const excluded = nodePicker.action === 'move'
+      ? getSubtreeIds(nodePicker.sourceId, edges)
+      : new Set([nodePicker.sourceId]);
+    const currentParentId = nodes.find(n => n.id === nodePicker.sourceId)?.data.parentId;
+
+    return nodes
+      .filter(n => !excluded.has(n.id) && !(nodePicker.action === 'move' && n.id === currentParentId))
+      .map(n => ({
+        node: n,
+        score: Math.max(fuzzyScore(pickerQuery, n.data.label), fuzzyScore(pickerQuery, n.data.topic || '') / 2),
+      }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .map(({ node }) => node);
+  }, [nodes, edges, nodePicker, pickerQuery]);
+
   // Filter nodes for search
   const filteredNodes = useMemo(() => {
     if (!actualQuery && !isNodesOnlyMode) return [];
@@ -127,7 +203,8 @@ export default function CommandPalette() {
     try {
       const results = await getSuggestions(
         selectedNode.data.label,
-        nodes.map(n => ({ label: n.data.label }))
+        nodes.map(n => ({ label: n.data.label })),
+        buildSuggestionContext(nodes, edges, selectedNode.id)
       );
       setSuggestions(results);
     } catch (error) {
@@ -136,6 +213,39 @@ export default function CommandPalette() {
     setIsLoadingSuggestions(false);
   };
 
+  // Propose a whole-graph re-organize; the review dialog takes over from here
+  const handleReorganize = async () => {
+    if (await proposeReorganize()) {
+      setCommandPaletteOpen(false);
+    } else {
+      showNotification('Wait until the queued ideas are placed');
+    }
+  };
+
+  // Name one topic (the selected node's) or all of them after their contents
+  const handleNameTopics = async (nodeId?: string) => {
+    setCommandPaletteOpen(false);
+    const renamed = await nameTopics(nodeId);
+    showNotification(renamed === 0
+      ? 'Topic names are already up to date'
+      : `Renamed ${renamed} ${renamed === 1 ? 'topic' : 'topics'}`);
+  };
+
+  // Summarize the node's subtree into its notes, then show them in the inspector
+  const handleSummarize = async (nodeId: string) => {
+    setCommandPaletteOpen(false);
+    try {
+      const result = await summarizeNode(nodeId);
+      if (!result) return;
+      setSelectedNodeId(nodeId);
+      setInspectorOpen(true);
+      showNotification(result.fallback ? 'Outline summary added to notes (no LLM configured)' : 'Summary added to notes');
+    } catch (error) {
+      console.error('Summarize failed:', error);
+      showNotification('Failed to summarize');
+    }
+  };
+
   // Jump to node
   const jumpToNode = (nodeId: string) => {
     const node = nodes.find(n => n.id === nodeId);
@@ -245,40 +355,72 @@ export default function CommandPalette() {
     downloadFile(md, filename, 'text/markdown');
   };
 
+  const handleCopyMermaid = () => {
+    copyToClipboard(exportToMermaid(), 'Mermaid');
+  };
+
+  const handleDownloadMermaid = () => {
+    if (!activeProject) return;
+    const safeName = activeProject.name
+      .toLowerCase()
+      .replace(/[^a-z0-9]/g, '-')
+      .replace(/-+/g, '-')
+      .slice(0, 30);
+    const filename = `${safeName}-${new Date().toISOString().split('T')[0]}.mmd`;
+    downloadFile(exportToMermaid(), filename, 'text/plain');
+  };
+
   const handleDownloadAllProjects = () => {
     const data = exportAllProjects();
     const filename = `brainstormy-all-projects-${new Date().toISOString().split('T')[0]}.json`;
     downloadFile(JSON.stringify(data, null, 2), filename, 'application/json');
   };
 
+  const handleImportText = async (text: string) => {
+    const result = await importProject(text);
+
+    if (result.success && result.newProjectId) {
+      showNotification('Project imported successfully!');
+      handleProjectSwitch(result.newProjectId);
+      setCommandPaletteOpen(false);
+    } else if (result.isDuplicate && result.duplicateProject) {
+      setModalState({
+        type: 'duplicate',
+        duplicateProject: result.duplicateProject,
+      });
+      setCommandPaletteOpen(false);
+    } else {
+      showNotification(`Import failed: ${result.error || 'Unknown error'}`);
+    }
+  };
+
   const handleImport = () => {
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = '.json';
+    input.accept = '.json,.mmd,.mermaid,.md,.markdown,.txt';
     input.onchange = async (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
       if (!file) return;
 
-      const text = await file.text();
-      const result = await importProject(text);
-
-      if (result.success && result.newProjectId) {
-        showNotification('Project imported successfully!');
-        handleProjectSwitch(result.newProjectId);
-        setCommandPaletteOpen(false);
-      } else if (result.isDuplicate && result.duplicateProject) {
-        setModalState({
-          type: 'duplicate',
-          duplicateProject: result.duplicateProject,
-        });
-        setCommandPaletteOpen(false);
-      } else {
-        showNotification(`Import failed: ${result.error || 'Unknown error'}`);
-      }
+      await handleImportText(await file.text());
     };
     input.click();
   };
 
+  const handleImportFromClipboard = async () => {
+    try {
+      const text = await navigator.clipboard.readText();
+      if (!text.trim()) {
+        showNotification('Clipboard is empty');
+        return;
+      }
+      await handleImportText(text);
+    } catch (error) {
+      console.error('Failed to read clipboard:', error);
+      showNotification('Could not read clipboard');
+    }
+  };
+
   const handleProjectSwitch = (projectId: string) => {
     const project = allProjects.find(p => p.id === projectId);
     if (!project) return;
@@ -300,6 +442,24 @@ export default function CommandPalette() {
     }
   };
 
+  const handlePickTarget = (targetId: string) => {
+    if (!nodePicker) return;
+    const { action, sourceId } = nodePicker;
+
+    if (action === 'move') {
+      showNotification(moveNode(sourceId, targetId) ? 'Node moved' : 'Cannot move node there');
+    } else if (linkedNodeIds.has(targetId)) {
+      removeCrossLink(sourceId, targetId);
+      showNotification('Link removed');
+    } else if (addCrossLink(sourceId, targetId, linkLabel)) {
+      showNotification('Link created');
+    } else {
+      showNotification('These nodes are already connected');
+    }
+    setCommandPaletteOpen(false);
+    setSearchQuery('');
+  };
+
   const handleAddSuggestion = async (suggestion: string) => {
     await addNode(suggestion, selectedNodeId || undefined);
     setSuggestions(prev => prev.filter(s => s !== suggestion));
@@ -340,7 +500,11 @@ export default function CommandPalette() {
                   ref={inputRef}
                   value={searchQuery}
                   onValueChange={setSearchQuery}
-                  placeholder={isNodesOnlyMode ? "Search nodes... (remove '>' to see commands)" : "Search nodes or type a command... (use '>' for nodes only)"}
+                  placeholder={isLinkMode
+                    ? `Link "${pickerSourceNode.data.label}" to... (add '| label' to name the link)`
+                    : isPickerMode
+                    ? `Move "${pickerSourceNode.data.label}" to...`
+                    : isNodesOnlyMode ? "Search nodes... (remove '>' to see commands)" : "Search nodes or type a command... (use '>' for nodes only)"}
                   className="flex-1 bg-transparent px-3 py-4 text-white placeholder-white/40 outline-none"
                 />
                 <button
@@ -356,8 +520,37 @@ export default function CommandPalette() {
                   No results found.
                 </Command.Empty>
 
+                {/* Node picker targets (link/move mode only) */}
+                {isPickerMode && (
+                  <Command.Group heading={`${isLinkMode ? 'Link' : 'Move'} "${pickerSourceNode.data.label}" to`} className="text-xs text-white/40 px-2 py-1 uppercase tracking-wider">
+                    {pickerTargets.map(node => (
+                      <Command.Item
+                        key={node.id}
+                        value={node.id}
+                        onSelect={() => handlePickTarget(node.id)}
+                        className="flex items-center gap-3 px-3 py-2 rounded-lg cursor-pointer text-white/80 hover:bg-white/10 data-[selected=true]:bg-white/10"
+                      >
+                        {!isLinkMode ? (
+                          <FolderInput className="w-4 h-4" style={{ color: node.data.color }} />
+                        ) : linkedNodeIds.has(node.id) ? (
+                          <Unlink className="w-4 h-4 text-red-400" />
+                        ) : (
+                          <Link2 className="w-4 h-4" style={{ color: node.data.color }} />
+                        )}
+                        <span>{node.data.label}</span>
+                        {linkLabel && !linkedNodeIds.has(node.id) && (
+                          <span className="text-xs text-white/40 italic">"{linkLabel}"</span>
+                        )}
+                        <span className="ml-auto text-xs text-white/30">
+                          {linkedNodeIds.has(node.id) ? 'Remove link' : node.data.topic}
+                        </span>
+                      </Command.Item>
+                    ))}
+                  </Command.Group>
+                )}
+
                 {/* Search Results */}
-                {filteredNodes.length > 0 && (
+                {!isPickerMode && filteredNodes.length > 0 && (
                   <Command.Group heading="Nodes" className="text-xs text-white/40 px-2 py-1 uppercase tracking-wider">
                     {filteredNodes.map(node => (
                       <Command.Item
@@ -378,7 +571,7 @@ export default function CommandPalette() {
                 )}
 
                 {/* AI Suggestions - hide in nodes-only mode */}
-                {!isNodesOnlyMode && (
+                {!isNodesOnlyMode && !isPickerMode && (
                 <Command.Group heading="AI Suggestions" className="text-xs text-white/40 px-2 py-1 uppercase tracking-wider">
                   <Command.Item
                     onSelect={loadSuggestions}
@@ -400,8 +593,85 @@ export default function CommandPalette() {
                 </Command.Group>
                 )}
 
+                {/* Node Commands - hide in nodes-only mode */}
+                {!isNodesOnlyMode && !isPickerMode && selectedNodeId && (
+                <Command.Group heading="Node" className="text-xs text-white/40 px-2 py-1 uppercase tracking-wider">
+                  <Command.Item
+                    onSelect={() => { openNodePicker('link', selectedNodeId); setSearchQuery(''); }}
+                    className="flex items-center gap-3 px-3 py-2 rounded-lg cursor-pointer text-white/80 hover:bg-white/10 data-[selected=true]:bg-white/10"
+                  >
+                    <Link2 className="w-4 h-4" />
+                    <span>Link selected node to...</span>
+                    <KeybindHint keybind={KEYBINDS.LINK_NODE} className="ml-auto text-[10px] bg-white/10 px-1.5 py-0.5 rounded" />
+                  </Command.Item>
+                  {selectedNodeId !== 'root' && (
+                    <Command.Item
+                      onSelect={() => { openNodePicker('move', selectedNodeId); setSearchQuery(''); }}
+                      className="flex items-center gap-3 px-3 py-2 rounded-lg cursor-pointer text-white/80 hover:bg-white/10 data-[selected=true]:bg-white/10"
+                    >
+                      <FolderInput className="w-4 h-4" />
+                      <span>Move selected node to...</span>
+                      <KeybindHint keybind={KEYBINDS.MOVE_NODE} className="ml-auto text-[10px] bg-white/10 px-1.5 py-0.5 rounded" />
+                    </Command.Item>
+                  )}
+                  <Command.Item
+                    onSelect={() => { setInspectorOpen(true); setCommandPaletteOpen(false); }}
+                    className="flex items-center gap-3 px-3 py-2 rounded-lg cursor-pointer text-white/80 hover:bg-white/10 data-[selected=true]:bg-white/10"
+                  >
+                    <Info className="w-4 h-4" />
+                    <span>Inspect selected node</span>
+                    <KeybindHint keybind={KEYBINDS.INSPECT_NODE} className="ml-auto text-[10px] bg-white/10 px-1.5 py-0.5 rounded" />
+                  </Command.Item>
+                  <Command.Item
+                    onSelect={() => { openExpansion(selectedNodeId); setCommandPaletteOpen(false); }}
+                    className="flex items-center gap-3 px-3 py-2 rounded-lg cursor-pointer text-white/80 hover:bg-white/10 data-[selected=true]:bg-white/10"
+                  >
+                    <Sparkles className="w-4 h-4 text-purple-400" />
+                    <span>Expand selected node with AI...</span>
+                    <KeybindHint keybind={KEYBINDS.EXPAND_NODE} className="ml-auto text-[10px] bg-white/10 px-1.5 py-0.5 rounded" />
+                  </Command.Item>
+                  {selectedNodeId !== 'root' && (
+                    <Command.Item
+                      onSelect={() => { togglePinned(selectedNodeId); setCommandPaletteOpen(false); }}
+                      className="flex items-center gap-3 px-3 py-2 rounded-lg cursor-pointer text-white/80 hover:bg-white/10 data-[selected=true]:bg-white/10"
+                    >
+                      <Pin className="w-4 h-4" />
+                      <span>{nodes.find(n => n.id === selectedNodeId)?.data.pinned ? 'Unpin selected node' : 'Pin selected node'}</span>
+                    </Command.Item>
+                  )}
+                  {selectedNodeId !== 'root' && (
+                    <Command.Item
+                      onSelect={() => handleNameTopics(selectedNodeId)}
+                      className="flex items-center gap-3 px-3 py-2 rounded-lg cursor-pointer text-white/80 hover:bg-white/10 data-[selected=true]:bg-white/10"
+                    >
+                      <Tag className="w-4 h-4" />
+                      <span>Name this topic from its ideas</span>
+                    </Command.Item>
+                  )}
+                  <Command.Item
+                    onSelect={() => handleSummarize(selectedNodeId)}
+                    className="flex items-center gap-3 px-3 py-2 rounded-lg cursor-pointer text-white/80 hover:bg-white/10 data-[selected=true]:bg-white/10"
+                  >
+                    <ScrollText className="w-4 h-4" />
+                    <span>Summarize this branch into a note</span>
+                  </Command.Item>
+                  {rehomeSuggestion && (
+                    <Command.Item
+                      onSelect={() => { acceptRehomeSuggestion(); setCommandPaletteOpen(false); }}
+                      className="flex items-center gap-3 px-3 py-2 rounded-lg cursor-pointer text-white/80 hover:bg-white/10 data-[selected=true]:bg-white/10"
+                    >
+                      <ArrowRightLeft className="w-4 h-4 text-amber-400" />
+                      <span>
+                        Move "{nodes.find(n => n.id === rehomeSuggestion.nodeId)?.data.label}" to "{nodes.find(n => n.id === rehomeSuggestion.parentId)?.data.label}"
+                      </span>
+                      <span className="ml-auto text-xs text-white/30">{Math.round(rehomeSuggestion.similarity * 100)}%</span>
+                    </Command.Item>
+                  )}
+                </Command.Group>
+                )}
+
                 {/* View Commands - hide in nodes-only mode */}
-                {!isNodesOnlyMode && (
+                {!isNodesOnlyMode && !isPickerMode && (
                 <Command.Group heading="View" className="text-xs text-white/40 px-2 py-1 uppercase tracking-wider">
                   <Command.Item
                     onSelect={() => { fitView({ duration: 800, padding: 0.2 }); setCommandPaletteOpen(false); }}
@@ -434,11 +704,33 @@ export default function CommandPalette() {
                     <RefreshCw className="w-4 h-4" />
                     <span>Re-layout graph</span>
                   </Command.Item>
+                  <Command.Item
+                    onSelect={handleReorganize}
+                    className="flex items-center gap-3 px-3 py-2 rounded-lg cursor-pointer text-white/80 hover:bg-white/10 data-[selected=true]:bg-white/10"
+                  >
+                    <Network className="w-4 h-4" />
+                    <span>Re-organize graph by meaning</span>
+                  </Command.Item>
+                  <Command.Item
+                    onSelect={() => handleNameTopics()}
+                    className="flex items-center gap-3 px-3 py-2 rounded-lg cursor-pointer text-white/80 hover:bg-white/10 data-[selected=true]:bg-white/10"
+                  >
+                    <Tag className="w-4 h-4" />
+                    <span>Name all topics from their ideas</span>
+                  </Command.Item>
+                  <Command.Item
+                    onSelect={() => { setChatOpen(true); setCommandPaletteOpen(false); }}
+                    className="flex items-center gap-3 px-3 py-2 rounded-lg cursor-pointer text-white/80 hover:bg-white/10 data-[selected=true]:bg-white/10"
+                  >
+                    <MessageSquare className="w-4 h-4" />
+                    <span>Chat about this graph</span>
+                    <KeybindHint keybind={KEYBINDS.TOGGLE_CHAT} className="ml-auto text-[10px] bg-white/10 px-1.5 py-0.5 rounded" />
+                  </Command.Item>
                 </Command.Group>
                 )}
 
                 {/* Project switcher (when searching) */}
-                {filteredProjects.length > 0 && (
+                {!isPickerMode && filteredProjects.length > 0 && (
                   <Command.Group heading="Switch Project" className="text-xs text-white/40 px-2 py-1 uppercase tracking-wider">
                     {filteredProjects.slice(0, 5).map(project => (
                       <Command.Item
@@ -462,7 +754,7 @@ export default function CommandPalette() {
                 )}
 
                 {/* Projects Commands - hide in nodes-only mode */}
-                {!isNodesOnlyMode && (
+                {!isNodesOnlyMode && !isPickerMode && (
                 <Command.Group heading="Projects" className="text-xs text-white/40 px-2 py-1 uppercase tracking-wider">
                   <Command.Item
                     onSelect={() => { toggleSidebar(); setCommandPaletteOpen(false); }}
@@ -484,8 +776,24 @@ export default function CommandPalette() {
                     className="flex items-center gap-3 px-3 py-2 rounded-lg cursor-pointer text-white/80 hover:bg-white/10 data-[selected=true]:bg-white/10"
                   >
                     <Upload className="w-4 h-4 text-blue-400" />
-                    <span>Import project</span>
+                    <span>Import project (JSON, Mermaid or Markdown)</span>
                   </Command.Item>
+                  <Command.Item
+                    onSelect={() => { handleImportFromClipboard(); }}
+                    className="flex items-center gap-3 px-3 py-2 rounded-lg cursor-pointer text-white/80 hover:bg-white/10 data-[selected=true]:bg-white/10"
+                  >
+                    <ClipboardPaste className="w-4 h-4 text-blue-400" />
+                    <span>Import project from clipboard</span>
+                  </Command.Item>
+                  {!reembedJob && (
+                    <Command.Item
+                      onSelect={() => { reembedProject(); setCommandPaletteOpen(false); }}
+                      className="flex items-center gap-3 px-3 py-2 rounded-lg cursor-pointer text-white/80 hover:bg-white/10 data-[selected=true]:bg-white/10"
+                    >
+                      <RefreshCw className="w-4 h-4 text-emerald-400" />
+                      <span>Re-embed project with the current model</span>
+                    </Command.Item>
+                  )}
                   <Command.Item
                     onSelect={handleDownloadAllProjects}
                     className="flex items-center gap-3 px-3 py-2 rounded-lg cursor-pointer text-white/80 hover:bg-white/10 data-[selected=true]:bg-white/10"
@@ -497,7 +805,7 @@ export default function CommandPalette() {
                 )}
 
                 {/* Export Commands - hide in nodes-only mode */}
-                {!isNodesOnlyMode && (
+                {!isNodesOnlyMode && !isPickerMode && (
                 <Command.Group heading="Export" className="text-xs text-white/40 px-2 py-1 uppercase tracking-wider">
                   <Command.Item
                     onSelect={handleCopyJson}
@@ -527,11 +835,25 @@ export default function CommandPalette() {
                     <Download className="w-4 h-4 text-green-400" />
                     <span>Download Markdown file</span>
                   </Command.Item>
+                  <Command.Item
+                    onSelect={handleCopyMermaid}
+                    className="flex items-center gap-3 px-3 py-2 rounded-lg cursor-pointer text-white/80 hover:bg-white/10 data-[selected=true]:bg-white/10"
+                  >
+                    <Copy className="w-4 h-4 text-pink-400" />
+                    <span>Copy Mermaid to clipboard</span>
+                  </Command.Item>
+                  <Command.Item
+                    onSelect={handleDownloadMermaid}
+                    className="flex items-center gap-3 px-3 py-2 rounded-lg cursor-pointer text-white/80 hover:bg-white/10 data-[selected=true]:bg-white/10"
+                  >
+                    <Download className="w-4 h-4 text-pink-400" />
+                    <span>Download Mermaid file</span>
+                  </Command.Item>
                 </Command.Group>
                 )}
 
                 {/* Danger Zone - hide in nodes-only mode */}
-                {!isNodesOnlyMode && (
+                {!isNodesOnlyMode && !isPickerMode && (
                 <Command.Group heading="Danger Zone" className="text-xs text-white/40 px-2 py-1 uppercase tracking-wider">
                   <Command.Item
                     onSelect={handleReset}
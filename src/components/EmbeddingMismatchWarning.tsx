@@ -0,0 +1,57 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { AlertTriangle, RefreshCw, X } from 'lucide-react';
+import { useGraphStore } from '../store/graphStore';
+import { useProjectStore } from '../store/projectStore';
+import { useSettingsStore } from '../store/settingsStore';
+import { findEmbeddingMismatches, getEmbeddingModelId } from '../utils/api';
+
+/**
+ * Warns when the active project's vectors come from another embedding model
+ * than the active one (or are fallbacks), and offers to re-embed the project
+ */
+export default function EmbeddingMismatchWarning() {
+  const { nodes, reembedJob, reembedProject } = useGraphStore();
+  const activeProjectId = useProjectStore((state) => state.activeProjectId);
+  // Re-check whenever the provider settings change
+  const modelId = useSettingsStore(() => getEmbeddingModelId());
+  const [dismissedKey, setDismissedKey] = useState<string | null>(null);
+
+  const mismatchCount = findEmbeddingMismatches(nodes).length;
+
+  const warningKey = `${activeProjectId}:${modelId}`;
+  const isVisible = mismatchCount > 0 && !reembedJob && dismissedKey !== warningKey;
+
+  return (
+    <AnimatePresence>
+      {isVisible && (
+        <motion.div
+          initial={{ opacity: 0, y: -20, x: '-50%' }}
+          animate={{ opacity: 1, y: 0, x: '-50%' }}
+          exit={{ opacity: 0, y: -20, x: '-50%' }}
+          className="fixed top-20 left-1/2 z-50 max-w-lg bg-gray-900/95 backdrop-blur-xl border border-amber-500/30 rounded-xl shadow-2xl px-4 py-3 flex items-center gap-3"
+        >
+          <AlertTriangle className="w-4 h-4 shrink-0 text-amber-400" />
+          <div className="text-sm text-white/80">
+            {mismatchCount} node{mismatchCount !== 1 ? 's were' : ' was'} not embedded with the active model.
+            <span className="text-white/50"> Auto-placement can't compare them until they are re-embedded.</span>
+          </div>
+          <button
+            onClick={() => reembedProject()}
+            className="px-3 py-1 text-xs rounded-lg bg-storm-600 hover:bg-storm-700 text-white transition-colors cursor-pointer flex items-center gap-1.5 shrink-0"
+          >
+            <RefreshCw className="w-3 h-3" />
+            Re-embed
+          </button>
+          <button
+            onClick={() => setDismissedKey(warningKey)}
+            className="p-1 hover:bg-white/10 rounded transition-colors cursor-pointer"
+            aria-label="Dismiss warning"
+          >
+            <X className="w-4 h-4 text-white/40" />
+          </button>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
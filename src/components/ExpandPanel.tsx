@@ -0,0 +1,106 @@
+import { motion, AnimatePresence } from 'framer-motion';
+import { Loader2, Minus, Plus, Sparkles, X } from 'lucide-react';
+import { useGraphStore } from '../store/graphStore';
+import type { ExpandStyle } from '../types';
+
+const STYLES: Array<{ id: ExpandStyle; name: string }> = [
+  { id: 'subtopics', name: 'Sub-topics' },
+  { id: 'questions', name: 'Questions' },
+  { id: 'risks', name: 'Risks' },
+  { id: 'examples', name: 'Examples' },
+];
+
+/**
+ * Options for "expand node"; the streamed suggestions show up as ghost children on the canvas
+ */
+export default function ExpandPanel() {
+  const { expansion, nodes, setExpansionOptions, runExpansion, acceptAllGhosts, closeExpansion } = useGraphStore();
+
+  const node = expansion ? nodes.find(n => n.id === expansion.nodeId) : undefined;
+  const isStreaming = expansion?.status === 'streaming';
+
+  return (
+    <AnimatePresence>
+      {expansion && node && (
+        <motion.div
+          initial={{ opacity: 0, y: -20, x: '-50%' }}
+          animate={{ opacity: 1, y: 0, x: '-50%' }}
+          exit={{ opacity: 0, y: -20, x: '-50%' }}
+          className="fixed top-20 left-1/2 z-50 w-[420px] bg-gray-900/95 backdrop-blur-xl border border-white/10 rounded-xl shadow-2xl p-4 space-y-3"
+        >
+          <div className="flex items-center gap-2">
+            <Sparkles className="w-4 h-4 shrink-0" style={{ color: node.data.color }} />
+            <div className="flex-1 text-sm text-white/80 truncate">
+              Expand <span className="text-white font-medium">"{node.data.label}"</span>
+            </div>
+            <button
+              onClick={closeExpansion}
+              className="p-1 hover:bg-white/10 rounded transition-colors cursor-pointer"
+              aria-label="Close"
+            >
+              <X className="w-4 h-4 text-white/40" />
+            </button>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <div className="flex flex-1 gap-1">
+              {STYLES.map((style) => (
+                <button
+                  key={style.id}
+                  onClick={() => setExpansionOptions({ style: style.id })}
+                  className={`flex-1 px-2 py-1 rounded-lg border text-xs transition-colors cursor-pointer ${
+                    expansion.style === style.id
+                      ? 'bg-storm-600/20 border-storm-500/50 text-white'
+                      : 'bg-white/5 border-white/10 text-white/60 hover:bg-white/10'
+                  }`}
+                >
+                  {style.name}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-1 text-xs text-white/70">
+              <button
+                onClick={() => setExpansionOptions({ count: Math.max(1, expansion.count - 1) })}
+                className="p-1 hover:bg-white/10 rounded transition-colors cursor-pointer"
+                aria-label="Fewer"
+              >
+                <Minus className="w-3 h-3" />
+              </button>
+              <span className="w-4 text-center font-mono">{expansion.count}</span>
+              <button
+                onClick={() => setExpansionOptions({ count: Math.min(10, expansion.count + 1) })}
+                className="p-1 hover:bg-white/10 rounded transition-colors cursor-pointer"
+                aria-label="More"
+              >
+                <Plus className="w-3 h-3" />
+              </button>
+            </div>
+          </div>
+
+          {expansion.error && (
+            <p className="text-xs text-red-300/90">{expansion.error}</p>
+          )}
+
+          <div className="flex items-center justify-end gap-2">
+            {expansion.ghosts.length > 0 && !isStreaming && (
+              <button
+                onClick={acceptAllGhosts}
+                className="px-3 py-1 text-xs rounded-lg bg-white/10 hover:bg-white/20 text-white transition-colors cursor-pointer"
+              >
+                Add all {expansion.ghosts.length}
+              </button>
+            )}
+            <button
+              onClick={() => runExpansion()}
+              disabled={isStreaming}
+              className="px-3 py-1 text-xs rounded-lg bg-storm-600 hover:bg-storm-700 text-white transition-colors cursor-pointer flex items-center gap-1.5 disabled:opacity-60 disabled:cursor-wait"
+            >
+              {isStreaming && <Loader2 className="w-3 h-3 animate-spin" />}
+              {isStreaming ? 'Thinking...' : expansion.status === 'idle' ? 'Suggest' : 'Suggest again'}
+            </button>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
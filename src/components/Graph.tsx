@@ -1,4 +1,4 @@
-import { useCallback, useEffect, useRef } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import {
   ReactFlow,
   Background,
@@ -9,12 +9,16 @@ import {
   BackgroundVariant,
   type Node,
   type NodeMouseHandler,
+  type OnNodeDrag,
+  type Connection,
+  type NodeChange,
 } from '@xyflow/react';
 import '@xyflow/react/dist/style.css';
 import { useGraphStore } from '../store/graphStore';
 import { useProjectStore } from '../store/projectStore';
 import { nodeTypes } from './nodes';
-import type { BrainstormNode } from '../types';
+import type { BrainstormNode, BrainstormEdge } from '../types';
+import { isCrossLink, getSubtreeIds } from '../utils/edges';
 import { KEYBINDS, matchesKeybind, isTypingInInput } from '../config/keybinds';
 import KeybindHint from './KeybindHint';
 
@@ -28,13 +32,15 @@ export default function Graph() {
     selectedNodeId,
     layoutGraph,
     setFitViewFn,
+    expansion,
   } = useGraphStore();
 
   const activeProjectId = useProjectStore((state) => state.activeProjectId);
   const projects = useProjectStore((state) => state.projects);
   const activeProject = activeProjectId ? projects[activeProjectId] : null;
 
-  const { fitView, setCenter, getViewport } = useReactFlow();
+  const { fitView, setCenter, getViewport, getIntersectingNodes } = useReactFlow();
+  const [dropTarget, setDropTarget] = useState<{ id: string; isValid: boolean } | null>(null);
   const hasPerformedInitialLayout = useRef(false);
   const previousNodeCount = useRef(nodes.length);
   const previousProjectId = useRef(activeProjectId);
@@ -98,11 +104,70 @@ export default function Graph() {
   // Handle node selection
   const onNodeClick: NodeMouseHandler<Node> = useCallback(
     (_, node) => {
+      if (node.type === 'ghost') return;
       setSelectedNodeId(node.id);
     },
     [setSelectedNodeId]
   );
 
+  // Find the node a dragged node is hovering over, and whether it can be re-parented there
+  const getDropTarget = useCallback(
+    (dragged: Node) => {
+      const target = getIntersectingNodes(dragged).find(n => n.id !== dragged.id);
+      if (!target) return null;
+
+      const { edges: currentEdges, nodes: currentNodes } = useGraphStore.getState();
+      const draggedNode = currentNodes.find(n => n.id === dragged.id);
+      const isValid =
+        dragged.id !== 'root' &&
+        draggedNode?.data.parentId !== target.id &&
+        !getSubtreeIds(dragged.id, currentEdges).has(target.id);
+
+      return { id: target.id, isValid };
+    },
+    [getIntersectingNodes]
+  );
+
+  const onNodeDrag: OnNodeDrag = useCallback(
+    (_, node) => {
+      const target = getDropTarget(node);
+      setDropTarget(prev =>
+        prev?.id === target?.id && prev?.isValid === target?.isValid ? prev : target
+      );
+    },
+    [getDropTarget]
+  );
+
+  // Dropping a node onto another re-parents it with its whole subtree
+  const onNodeDragStop: OnNodeDrag = useCallback(
+    (_, node) => {
+      const target = getDropTarget(node);
+      setDropTarget(null);
+      if (!target) return;
+
+      const moved = target.isValid && useGraphStore.getState().moveNode(node.id, target.id);
+      if (!moved) {
+        // Snap back instead of leaving the node on top of another one
+        useGraphStore.getState().layoutGraph();
+      }
+    },
+    [getDropTarget]
+  );
+
+  // Ghost nodes live in the expansion, not the graph, so their changes are dropped
+  const handleNodesChange = useCallback(
+    (changes: NodeChange[]) => {
+      const ghostIds = new Set(useGraphStore.getState().expansion?.ghosts.map(g => g.id));
+      onNodesChange(changes.filter(c => !('id' in c && ghostIds.has(c.id))) as NodeChange<BrainstormNode>[]);
+    },
+    [onNodesChange]
+  );
+
+  // Dragging from one handle to another node creates a cross-link
+  const onConnect = useCallback((connection: Connection) => {
+    useGraphStore.getState().addCrossLink(connection.source, connection.target);
+  }, []);
+
   // Keyboard navigation
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -183,6 +248,44 @@ export default function Graph() {
         e.preventDefault();
         useGraphStore.getState().setEditingNodeId(selectedNodeId);
       }
+
+      // Open the inline notes editor of the selected node
+      if (matchesKeybind(e, KEYBINDS.EDIT_NOTES) && selectedNodeId) {
+        e.preventDefault();
+        useGraphStore.getState().setNotesNodeId(selectedNodeId);
+      }
+
+      // Link selected node to another node (target picked in the command palette)
+      if (matchesKeybind(e, KEYBINDS.LINK_NODE) && selectedNodeId) {
+        e.preventDefault();
+        useGraphStore.getState().openNodePicker('link', selectedNodeId);
+      }
+
+      // Toggle the inspector for the selected node
+      if (matchesKeybind(e, KEYBINDS.INSPECT_NODE)) {
+        e.preventDefault();
+        const { isInspectorOpen, setInspectorOpen } = useGraphStore.getState();
+        setInspectorOpen(!isInspectorOpen);
+      }
+
+      // Stream AI suggestions for the selected node as ghost children
+      if (matchesKeybind(e, KEYBINDS.EXPAND_NODE) && selectedNodeId) {
+        e.preventDefault();
+        useGraphStore.getState().openExpansion(selectedNodeId);
+      }
+
+      // Toggle the chat about the whole graph
+      if (matchesKeybind(e, KEYBINDS.TOGGLE_CHAT)) {
+        e.preventDefault();
+        const { isChatOpen, setChatOpen } = useGraphStore.getState();
+        setChatOpen(!isChatOpen);
+      }
+
+      // Move selected node (and its subtree) under another node
+      if (matchesKeybind(e, KEYBINDS.MOVE_NODE) && selectedNodeId && selectedNodeId !== 'root') {
+        e.preventDefault();
+        useGraphStore.getState().openNodePicker('move', selectedNodeId);
+      }
     };
 
     const navigateNodes = (key: string) => {
@@ -234,16 +337,72 @@ export default function Graph() {
   const displayNodes = nodes.map(n => ({
     ...n,
     selected: n.id === selectedNodeId,
+    className: dropTarget?.id === n.id
+      ? (dropTarget.isValid ? 'drop-target' : 'drop-target-invalid')
+      : undefined,
   }));
 
+  // Ghost children of an expansion, in a column to the right of the expanded node
+  const expandedNode = expansion && nodes.find(n => n.id === expansion.nodeId);
+  const ghostNodes: Node[] = expandedNode
+    ? expansion.ghosts.map((ghost, i) => ({
+        id: ghost.id,
+        type: 'ghost',
+        position: {
+          x: expandedNode.position.x + 320,
+          y: expandedNode.position.y + (i - (expansion.ghosts.length - 1) / 2) * 48,
+        },
+        data: { label: ghost.label, color: expandedNode.data.color },
+        draggable: false,
+        selectable: false,
+      }))
+    : [];
+  const ghostEdges: BrainstormEdge[] = expandedNode
+    ? expansion.ghosts.map(ghost => ({
+        id: `e-${expandedNode.id}-${ghost.id}`,
+        source: expandedNode.id,
+        target: ghost.id,
+        type: 'smoothstep',
+        style: {
+          stroke: expandedNode.data.color || '#636ef1',
+          strokeWidth: 1.5,
+          strokeDasharray: '4 4',
+          opacity: 0.35,
+        },
+      }))
+    : [];
+
+  // Cross-links are drawn as dashed curves with their label, on top of the tree edges
+  const displayEdges: BrainstormEdge[] = edges.map(e =>
+    isCrossLink(e)
+      ? {
+          ...e,
+          type: 'default',
+          label: e.data?.label,
+          labelStyle: { fill: 'rgba(255,255,255,0.7)', fontSize: 10 },
+          labelBgStyle: { fill: 'rgba(0,0,0,0.6)' },
+          style: {
+            stroke: '#e2e8f0',
+            strokeWidth: 1.5,
+            strokeDasharray: '6 4',
+            opacity: 0.6,
+          },
+          zIndex: 1,
+        }
+      : e
+  );
+
   return (
     <div className="w-full h-full">
       <ReactFlow
-        nodes={displayNodes}
-        edges={edges}
-        onNodesChange={onNodesChange}
+        nodes={[...displayNodes, ...ghostNodes]}
+        edges={[...displayEdges, ...ghostEdges]}
+        onNodesChange={handleNodesChange}
         onEdgesChange={onEdgesChange}
         onNodeClick={onNodeClick}
+        onNodeDrag={onNodeDrag}
+        onNodeDragStop={onNodeDragStop}
+        onConnect={onConnect}
         nodeTypes={nodeTypes}
         fitView
         minZoom={0.1}
@@ -305,6 +464,12 @@ export default function Graph() {
             <div><KeybindHint keybind={KEYBINDS.REDO} className="text-white/60" /> {KEYBINDS.REDO.description}</div>
             <div><KeybindHint keybind={KEYBINDS.FIT_VIEW} className="text-white/60" /> {KEYBINDS.FIT_VIEW.description}</div>
             <div><KeybindHint keybind={KEYBINDS.EDIT_NODE} className="text-white/60" /> {KEYBINDS.EDIT_NODE.description}</div>
+            <div><KeybindHint keybind={KEYBINDS.LINK_NODE} className="text-white/60" /> {KEYBINDS.LINK_NODE.description}</div>
+            <div><KeybindHint keybind={KEYBINDS.MOVE_NODE} className="text-white/60" /> {KEYBINDS.MOVE_NODE.description}</div>
+            <div><KeybindHint keybind={KEYBINDS.EDIT_NOTES} className="text-white/60" /> {KEYBINDS.EDIT_NOTES.description}</div>
+            <div><KeybindHint keybind={KEYBINDS.INSPECT_NODE} className="text-white/60" /> {KEYBINDS.INSPECT_NODE.description}</div>
+            <div><KeybindHint keybind={KEYBINDS.EXPAND_NODE} className="text-white/60" /> {KEYBINDS.EXPAND_NODE.description}</div>
+            <div><KeybindHint keybind={KEYBINDS.TOGGLE_CHAT} className="text-white/60" /> {KEYBINDS.TOGGLE_CHAT.description}</div>
             <div><KeybindHint keybind={KEYBINDS.NAVIGATE_UP} className="text-white/60" /> Navigate</div>
             <div><KeybindHint keybind={KEYBINDS.DELETE_NODE} className="text-white/60" /> {KEYBINDS.DELETE_NODE.description}</div>
           </div>
@@ -4,6 +4,7 @@ import { Zap, Loader2, Sparkles, Cpu, Server, CornerDownRight, Plus } from 'luci
 import { useGraphStore } from '../store/graphStore';
 import { useSettingsStore } from '../store/settingsStore';
 import { KEYBINDS, matchesKeybind } from '../config/keybinds';
+import { parsePastedLines } from '../utils/markdown';
 import { KeybindHintInline } from './KeybindHint';
 
 export default function InputBar() {
@@ -12,7 +13,7 @@ export default function InputBar() {
   const lastManualMode = useRef<'child' | 'current'>('child');
   const inputRef = useRef<HTMLInputElement>(null);
 
-  const { addNode, addNodeToSelected, isProcessing, selectedNodeId, nodes, setInputBarFocusFn, setInputBarToggleModeFn, setInputBarAutoModeFn } = useGraphStore();
+  const { addNode, addNodeToSelected, addNodes, isProcessing, selectedNodeId, nodes, setInputBarFocusFn, setInputBarToggleModeFn, setInputBarAutoModeFn } = useGraphStore();
   const { embeddingProvider, isModelReady, isModelLoading, setSettingsOpen } = useSettingsStore();
 
   const selectedNode = nodes.find(n => n.id === selectedNodeId);
@@ -71,22 +72,33 @@ export default function InputBar() {
     };
   }, [setInputBarFocusFn, setInputBarToggleModeFn, setInputBarAutoModeFn]);
 
-  const handleSubmit = async (e: React.KeyboardEvent) => {
-    if (matchesKeybind(e.nativeEvent, KEYBINDS.ENTER) && input.trim() && !isProcessing) {
+  // Adds are queued in the store, so Enter returns right away and typing can go on
+  const handleSubmit = (e: React.KeyboardEvent) => {
+    if (matchesKeybind(e.nativeEvent, KEYBINDS.ENTER) && input.trim()) {
       const text = input.trim();
       setInput('');
 
       if (mode === 'auto') {
-        await addNode(text);
+        addNode(text);
       } else if (mode === 'child') {
-        await addNodeToSelected(text, true);
+        addNodeToSelected(text, true);
       } else {
         // current mode - add to selected but don't select new node
-        await addNodeToSelected(text, false);
+        addNodeToSelected(text, false);
       }
+    }
+  };
 
-      // Refocus input
-      inputRef.current?.focus();
+  // A multi-line paste becomes one node per line instead of one flattened label
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const items = parsePastedLines(e.clipboardData.getData('text/plain'));
+    if (items.length < 2) return;
+
+    e.preventDefault();
+    if (mode === 'auto') {
+      addNodes(items);
+    } else {
+      addNodes(items, selectedNodeId || undefined, mode === 'child');
     }
   };
 
@@ -157,6 +169,7 @@ export default function InputBar() {
             ref={inputRef}
             value={input}
             onChange={(e) => setInput(e.target.value)}
+            onPaste={handlePaste}
             onKeyDown={(e) => {
               if (matchesKeybind(e.nativeEvent, KEYBINDS.SWITCH_TO_AUTO)) {
                 e.preventDefault();
@@ -177,7 +190,6 @@ export default function InputBar() {
                 : `Add to "${selectedNode?.data.label}"...`
             }
             className="w-full bg-transparent px-5 py-4 text-lg text-white placeholder-white/30 outline-none font-light"
-            disabled={isProcessing}
           />
 
           <AnimatePresence>
@@ -199,6 +211,7 @@ export default function InputBar() {
           <span>
             <KeybindHintInline keybind={KEYBINDS.ENTER} showLabel={false} kbdClassName="px-1.5 py-0.5 bg-white/10 rounded text-white/50" /> Add
           </span>
+          <span>Paste a list to add many</span>
           <span>
             <KeybindHintInline keybind={KEYBINDS.COMMAND_PALETTE} showLabel={false} kbdClassName="px-1.5 py-0.5 bg-white/10 rounded text-white/50" /> Commands
           </span>
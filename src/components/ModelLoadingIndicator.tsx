@@ -1,15 +1,27 @@
 import { motion, AnimatePresence } from 'framer-motion';
-import { Cpu, Loader2 } from 'lucide-react';
+import { Cpu, Loader2, RefreshCw } from 'lucide-react';
 import { useSettingsStore } from '../store/settingsStore';
+import { useGraphStore } from '../store/graphStore';
 
 export default function ModelLoadingIndicator() {
   const { isModelLoading, modelLoadProgress, modelLoadStatus, embeddingProvider } = useSettingsStore();
+  const reembedJob = useGraphStore((state) => state.reembedJob);
 
-  // Only show when using local provider and loading
-  if (embeddingProvider !== 'local' || !isModelLoading) {
+  // Show while the local model loads, or while the project is being re-embedded
+  const isLoadingModel = embeddingProvider === 'local' && isModelLoading;
+  if (!isLoadingModel && !reembedJob) {
     return null;
   }
 
+  const title = isLoadingModel ? 'Loading AI Model' : 'Re-embedding Project';
+  const status = isLoadingModel ? modelLoadStatus : `${reembedJob!.done} / ${reembedJob!.total} nodes`;
+  const progress = isLoadingModel
+    ? modelLoadProgress
+    : reembedJob!.total > 0
+      ? Math.round((reembedJob!.done / reembedJob!.total) * 100)
+      : 100;
+  const Icon = isLoadingModel ? Cpu : RefreshCw;
+
   return (
     <AnimatePresence>
       <motion.div
@@ -20,16 +32,16 @@ export default function ModelLoadingIndicator() {
       >
         <div className="bg-black/80 backdrop-blur-xl border border-white/20 rounded-xl px-4 py-3 shadow-2xl flex items-center gap-3">
           <div className="relative">
-            <Cpu size={20} className="text-emerald-400" />
+            <Icon size={20} className="text-emerald-400" />
             <Loader2 size={12} className="text-emerald-400 animate-spin absolute -bottom-1 -right-1" />
           </div>
 
           <div className="flex flex-col">
             <span className="text-sm text-white font-medium">
-              Loading AI Model
+              {title}
             </span>
             <span className="text-xs text-white/50">
-              {modelLoadStatus}
+              {status}
             </span>
           </div>
 
@@ -37,13 +49,13 @@ export default function ModelLoadingIndicator() {
             <motion.div
               className="h-full bg-emerald-500"
               initial={{ width: 0 }}
-              animate={{ width: `${modelLoadProgress}%` }}
+              animate={{ width: `${progress}%` }}
               transition={{ duration: 0.3 }}
             />
           </div>
 
           <span className="text-xs text-white/50 font-mono w-8">
-            {modelLoadProgress}%
+            {progress}%
           </span>
         </div>
       </motion.div>
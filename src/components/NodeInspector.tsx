@@ -0,0 +1,200 @@
+import { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Info, Pin, X } from 'lucide-react';
+import { useGraphStore } from '../store/graphStore';
+import type { ClusteringStrategy, PlacementBranch } from '../types';
+
+// How findBestParent picked the parent, in words
+const BRANCH_DESCRIPTIONS: Record<PlacementBranch, string> = {
+  direct: 'Fewer than 3 nodes or no hierarchy yet: the nearest node by direct similarity.',
+  leaf: "The nearest leaf was more similar than the best cluster head's own label.",
+  cluster: 'The best cluster head, scored partly on its whole branch, beat every leaf on direct similarity.',
+};
+
+const STRATEGY_NAMES: Record<ClusteringStrategy, string> = {
+  hybrid: 'hybrid',
+  nearest: 'nearest node',
+  anchor: 'topics only',
+  centroid: 'centroid',
+};
+
+function percent(value: number | undefined): string {
+  return value === undefined ? '-' : `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Side panel with the selected node's details and why auto-organize put it where it is
+ */
+export default function NodeInspector() {
+  const { isInspectorOpen, setInspectorOpen, nodes, selectedNodeId, setSelectedNodeId, togglePinned, updateNodeNotes } = useGraphStore();
+
+  const node = nodes.find(n => n.id === selectedNodeId);
+  const parent = node?.data.parentId ? nodes.find(n => n.id === node.data.parentId) : undefined;
+  const placement = node?.data.placement;
+  const labelOf = (id: string) => nodes.find(n => n.id === id)?.data.label;
+
+  // Draft of the notes, saved when the textarea loses focus
+  const [notesDraft, setNotesDraft] = useState(node?.data.notes ?? '');
+  useEffect(() => {
+    setNotesDraft(node?.data.notes ?? '');
+  }, [node?.id, node?.data.notes]);
+
+  return (
+    <AnimatePresence>
+      {isInspectorOpen && (
+        <motion.div
+          initial={{ opacity: 0, x: 20 }}
+          animate={{ opacity: 1, x: 0 }}
+          exit={{ opacity: 0, x: 20 }}
+          className="fixed top-16 right-4 bottom-36 w-80 z-40 bg-gray-900/95 backdrop-blur-xl border border-white/10 rounded-xl shadow-2xl flex flex-col"
+        >
+          <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+            <div className="flex items-center gap-2 text-sm font-medium text-white/80">
+              <Info className="w-4 h-4" />
+              Inspector
+            </div>
+            <button
+              onClick={() => setInspectorOpen(false)}
+              className="p-1 hover:bg-white/10 rounded transition-colors cursor-pointer"
+              aria-label="Close inspector"
+            >
+              <X className="w-4 h-4 text-white/40" />
+            </button>
+          </div>
+
+          {!node ? (
+            <div className="p-4 text-sm text-white/40">Select a node to inspect it.</div>
+          ) : (
+            <div className="flex-1 overflow-y-auto p-4 space-y-5 text-sm">
+              {/* Details */}
+              <section>
+                <div className="flex items-start gap-2">
+                  <div className="flex-1 text-white font-medium break-words" style={{ color: node.data.color }}>
+                    {node.data.label}
+                  </div>
+                  {node.id !== 'root' && (
+                    <button
+                      onClick={() => togglePinned(node.id)}
+                      className={`p-1 rounded transition-colors cursor-pointer ${node.data.pinned ? 'bg-white/10 text-white' : 'text-white/40 hover:bg-white/10'}`}
+                      title={node.data.pinned ? 'Unpin: let re-organize move it' : 'Pin: re-organize leaves it under its parent'}
+                    >
+                      <Pin className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+                <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+                  <dt className="text-white/40">Type</dt>
+                  <dd className="text-white/70">{node.data.isAnchor ? 'Topic' : 'Idea'}</dd>
+                  <dt className="text-white/40">Topic</dt>
+                  <dd className="text-white/70 break-words">{node.data.topic || '-'}</dd>
+                  <dt className="text-white/40">Parent</dt>
+                  <dd className="text-white/70 break-words">
+                    {parent ? (
+                      <button onClick={() => setSelectedNodeId(parent.id)} className="hover:text-white underline decoration-white/20 cursor-pointer">
+                        {parent.data.label}
+                      </button>
+                    ) : '-'}
+                  </dd>
+                  <dt className="text-white/40">Embedding</dt>
+                  <dd className="text-white/70 break-all">
+                    {node.data.vector ? `${node.data.vector.length} dims` : 'none'}
+                    {node.data.embeddingModel && <span className="text-white/40"> · {node.data.embeddingModel}</span>}
+                  </dd>
+                  <dt className="text-white/40">Added</dt>
+                  <dd className="text-white/70">{new Date(node.data.createdAt).toLocaleString()}</dd>
+                </dl>
+              </section>
+
+              {/* Notes */}
+              {!node.data.pending && (
+                <section>
+                  <h4 className="text-xs font-medium text-white/60 uppercase tracking-wider mb-2">Notes</h4>
+                  <textarea
+                    value={notesDraft}
+                    onChange={(e) => setNotesDraft(e.target.value)}
+                    onBlur={() => updateNodeNotes(node.id, notesDraft)}
+                    rows={Math.min(Math.max(notesDraft.split('\n').length, 3), 16)}
+                    placeholder="Notes, links, snippets (Markdown)..."
+                    className="w-full resize-y bg-white/5 border border-white/10 text-white/80 text-xs font-mono rounded-lg px-2 py-1.5 outline-none focus:border-white/20 placeholder-white/30"
+                  />
+                </section>
+              )}
+
+              {/* Placement */}
+              {node.id !== 'root' && (
+                <section>
+                  <h4 className="text-xs font-medium text-white/60 uppercase tracking-wider mb-2">Placement</h4>
+                  {!placement ? (
+                    <p className="text-xs text-white/40">No placement was recorded (imported, or added before placements were tracked).</p>
+                  ) : placement.mode === 'manual' ? (
+                    <p className="text-xs text-white/60">Placed by hand.</p>
+                  ) : placement.reorganized ? (
+                    <div className="space-y-2 text-xs">
+                      <p className="text-white/70">
+                        {placement.revisedTo
+                          ? 'Re-organizing the graph placed it, then it was moved by hand.'
+                          : placement.result === 'attached'
+                          ? <>Re-organizing the graph grouped it under <span className="text-white">"{parent?.data.label ?? 'a deleted node'}"</span>.</>
+                          : 'Re-organizing the graph made it the head of a topic.'}
+                      </p>
+                      {placement.similarity !== undefined && (
+                        <p className="text-white/50 font-mono">
+                          {percent(placement.similarity)} similar · threshold {percent(placement.threshold)}
+                        </p>
+                      )}
+                    </div>
+                  ) : (
+                    <div className="space-y-2 text-xs">
+                      <p className="text-white/70">
+                        {placement.result === 'attached'
+                          ? <>Auto-organize attached it under <span className="text-white">"{labelOf(placement.candidates?.[0]?.id ?? '') ?? 'a deleted node'}"</span>.</>
+                          : 'No node was similar enough, so auto-organize made it a new topic.'}
+                      </p>
+                      <p className="text-white/50 font-mono">
+                        best {percent(placement.similarity)} {placement.result === 'attached' ? '>' : '<='} threshold {percent(placement.threshold)}
+                        {placement.strategy && <span className="text-white/40"> · {STRATEGY_NAMES[placement.strategy]}</span>}
+                      </p>
+                      {placement.branch && (!placement.strategy || placement.strategy === 'hybrid') && (
+                        <p className="text-white/50">{BRANCH_DESCRIPTIONS[placement.branch]}</p>
+                      )}
+                      {placement.revisedTo && (
+                        <p className="text-amber-300/80">
+                          Changed afterwards to {placement.revisedTo === 'root'
+                            ? 'a new topic'
+                            : `"${labelOf(placement.revisedTo) ?? 'a deleted node'}"`}.
+                        </p>
+                      )}
+
+                      {placement.candidates && placement.candidates.length > 0 && (
+                        <table className="w-full mt-2 font-mono">
+                          <thead>
+                            <tr className="text-white/40 text-left">
+                              <th className="font-normal pb-1">Candidate</th>
+                              <th className="font-normal pb-1 text-right" title="Score compared against the threshold">Score</th>
+                              <th className="font-normal pb-1 text-right">Direct</th>
+                              <th className="font-normal pb-1 text-right">Cluster</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {placement.candidates.map((c, i) => (
+                              <tr key={c.id} className={i === 0 ? 'text-white/90' : 'text-white/50'}>
+                                <td className="py-0.5 pr-2 truncate max-w-[120px]" title={c.label}>{c.label}</td>
+                                <td className="py-0.5 text-right">{percent(c.similarity)}</td>
+                                <td className="py-0.5 text-right">{percent(c.directSimilarity)}</td>
+                                <td className="py-0.5 text-right">{percent(c.clusterSimilarity)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                    </div>
+                  )}
+                </section>
+              )}
+            </div>
+          )}
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,101 @@
+import { useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { GitBranch, Sparkles, X } from 'lucide-react';
+import { useGraphStore } from '../store/graphStore';
+import { KEYBINDS, matchesKeybind } from '../config/keybinds';
+import KeybindHint from './KeybindHint';
+
+/**
+ * Shows where auto-organize put the last node and lets the user try the
+ * next best parent or make it a new topic instead
+ */
+export default function PlacementReview() {
+  const { placementReview, nodes, cyclePlacement, choosePlacement, dismissPlacementReview } = useGraphStore();
+
+  const node = placementReview ? nodes.find(n => n.id === placementReview.nodeId) : undefined;
+  const candidate = placementReview && placementReview.choice >= 0
+    ? placementReview.candidates[placementReview.choice]
+    : undefined;
+  const parent = candidate ? nodes.find(n => n.id === candidate.parentId) : undefined;
+  const isVisible = !!(placementReview && node);
+
+  // Works while typing in the input bar, right after pressing Enter
+  useEffect(() => {
+    if (!isVisible) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (matchesKeybind(e, KEYBINDS.CYCLE_PLACEMENT)) {
+        e.preventDefault();
+        cyclePlacement();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown, true);
+    return () => document.removeEventListener('keydown', handleKeyDown, true);
+  }, [isVisible, cyclePlacement]);
+
+  return (
+    <AnimatePresence>
+      {isVisible && (
+        <motion.div
+          initial={{ opacity: 0, y: 20, x: '-50%' }}
+          animate={{ opacity: 1, y: 0, x: '-50%' }}
+          exit={{ opacity: 0, y: 20, x: '-50%' }}
+          className="fixed bottom-40 left-1/2 z-50 bg-gray-900/95 backdrop-blur-xl border border-white/10 rounded-xl shadow-2xl px-4 py-3 flex items-center gap-3"
+        >
+          {parent ? (
+            <GitBranch className="w-4 h-4 shrink-0" style={{ color: parent.data.color }} />
+          ) : (
+            <Sparkles className="w-4 h-4 shrink-0" style={{ color: node.data.color }} />
+          )}
+          <div className="text-sm text-white/80">
+            <span className="text-white font-medium">"{node.data.label}"</span>{' '}
+            {parent ? (
+              <>
+                placed under <span className="text-white font-medium">"{parent.data.label}"</span>
+                <span
+                  className="ml-2 text-xs text-white/40 font-mono"
+                  title={candidate?.clusterSimilarity !== undefined
+                    ? `Cluster ${Math.round(candidate.clusterSimilarity * 100)}%, direct ${Math.round(candidate.directSimilarity * 100)}%`
+                    : 'Direct similarity'}
+                >
+                  {Math.round(candidate!.similarity * 100)}%
+                </span>
+              </>
+            ) : (
+              'is a new topic'
+            )}
+            {placementReview.candidates.length > 0 && (
+              <span className="ml-2 text-xs text-white/40 font-mono">
+                {placementReview.choice === -1 ? 'topic' : placementReview.choice + 1}/{placementReview.candidates.length}
+              </span>
+            )}
+          </div>
+          {placementReview.candidates.length > 0 && (
+            <button
+              onClick={() => cyclePlacement()}
+              className="px-3 py-1 text-xs rounded-lg bg-white/10 hover:bg-white/20 text-white transition-colors cursor-pointer flex items-center gap-1.5"
+            >
+              Next <KeybindHint keybind={KEYBINDS.CYCLE_PLACEMENT} className="text-white/40" />
+            </button>
+          )}
+          {placementReview.choice !== -1 && (
+            <button
+              onClick={() => choosePlacement(-1)}
+              className="px-3 py-1 text-xs rounded-lg bg-storm-600 hover:bg-storm-700 text-white transition-colors cursor-pointer"
+            >
+              New topic
+            </button>
+          )}
+          <button
+            onClick={dismissPlacementReview}
+            className="p-1 hover:bg-white/10 rounded transition-colors cursor-pointer"
+            aria-label="Keep placement"
+          >
+            <X className="w-4 h-4 text-white/40" />
+          </button>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -1,14 +1,32 @@
 import { useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Plus, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Plus, ChevronLeft, ChevronRight, Cloud, CloudOff, Loader2 } from 'lucide-react';
 import { useProjectStore } from '../store/projectStore';
 import ProjectListItem from './ProjectListItem';
 import { KEYBINDS, matchesKeybind } from '../config/keybinds';
+import { formatBytes, getLastUsedAt, STORAGE_WARNING_RATIO } from '../utils/projectUtils';
 
 export default function ProjectSidebar() {
-  const { isSidebarOpen, toggleSidebar, createProject, getAllProjects, setModalState } = useProjectStore();
+  const {
+    isSidebarOpen,
+    toggleSidebar,
+    createProject,
+    getAllProjects,
+    setModalState,
+    serverSyncStatus,
+    storageEstimate,
+    refreshStorageEstimate,
+  } = useProjectStore();
   const projects = getAllProjects();
 
+  // Refresh storage usage when projects are added or removed
+  useEffect(() => {
+    refreshStorageEstimate();
+  }, [projects.length, refreshStorageEstimate]);
+
+  const isStorageNearlyFull =
+    !!storageEstimate && storageEstimate.usage > storageEstimate.quota * STORAGE_WARNING_RATIO;
+
   // Keyboard shortcut for toggling sidebar
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -23,8 +41,8 @@ export default function ProjectSidebar() {
     return () => document.removeEventListener('keydown', handleKeyDown, true);
   }, [toggleSidebar]);
 
-  // Sort projects by modified date (most recent first)
-  const sortedProjects = [...projects].sort((a, b) => b.modifiedAt - a.modifiedAt);
+  // Sort projects by last edit or visit (most recent first)
+  const sortedProjects = [...projects].sort((a, b) => getLastUsedAt(b) - getLastUsedAt(a));
 
   const handleNewProject = () => {
     setModalState({ type: 'create' });
@@ -81,9 +99,35 @@ export default function ProjectSidebar() {
 
         {/* Footer with storage info */}
         <div className="p-3 border-t border-white/5 shrink-0">
-          <div className="text-xs text-white/30">
-            {projects.length} project{projects.length !== 1 ? 's' : ''}
+          <div className="flex items-center justify-between text-xs text-white/30">
+            <span>
+              {projects.length} project{projects.length !== 1 ? 's' : ''}
+            </span>
+            {serverSyncStatus === 'syncing' ? (
+              <span className="flex items-center gap-1">
+                <Loader2 className="w-3 h-3 animate-spin" />
+                Syncing
+              </span>
+            ) : serverSyncStatus === 'offline' ? (
+              <span className="flex items-center gap-1 text-amber-400/70" title="Server unreachable, changes are kept in this browser">
+                <CloudOff className="w-3 h-3" />
+                Local only
+              </span>
+            ) : serverSyncStatus === 'synced' ? (
+              <span className="flex items-center gap-1" title="Projects are saved on the server">
+                <Cloud className="w-3 h-3" />
+                Synced
+              </span>
+            ) : null}
           </div>
+          {storageEstimate && (
+            <div
+              className={`mt-1 text-xs ${isStorageNearlyFull ? 'text-amber-400/70' : 'text-white/30'}`}
+              title={isStorageNearlyFull ? 'Storage is almost full, consider exporting and deleting old projects' : 'Browser storage used by this app'}
+            >
+              {formatBytes(storageEstimate.usage)} of {formatBytes(storageEstimate.quota)} used
+            </div>
+          )}
         </div>
       </motion.div>
 
@@ -0,0 +1,49 @@
+import { motion, AnimatePresence } from 'framer-motion';
+import { ArrowRightLeft, X } from 'lucide-react';
+import { useGraphStore } from '../store/graphStore';
+
+/**
+ * Offers to move a node whose edited label now fits better under another parent
+ */
+export default function RehomeSuggestion() {
+  const { rehomeSuggestion, nodes, acceptRehomeSuggestion, dismissRehomeSuggestion } = useGraphStore();
+
+  const node = rehomeSuggestion ? nodes.find(n => n.id === rehomeSuggestion.nodeId) : undefined;
+  const parent = rehomeSuggestion ? nodes.find(n => n.id === rehomeSuggestion.parentId) : undefined;
+  const isVisible = !!(rehomeSuggestion && node && parent);
+
+  return (
+    <AnimatePresence>
+      {isVisible && (
+        <motion.div
+          initial={{ opacity: 0, y: 20, x: '-50%' }}
+          animate={{ opacity: 1, y: 0, x: '-50%' }}
+          exit={{ opacity: 0, y: 20, x: '-50%' }}
+          className="fixed bottom-40 left-1/2 z-50 bg-gray-900/95 backdrop-blur-xl border border-white/10 rounded-xl shadow-2xl px-4 py-3 flex items-center gap-3"
+        >
+          <ArrowRightLeft className="w-4 h-4 shrink-0" style={{ color: parent.data.color }} />
+          <div className="text-sm text-white/80">
+            <span className="text-white font-medium">"{node.data.label}"</span> fits better under{' '}
+            <span className="text-white font-medium">"{parent.data.label}"</span>
+            <span className="ml-2 text-xs text-white/40 font-mono">
+              {Math.round(rehomeSuggestion.similarity * 100)}% vs {Math.round(rehomeSuggestion.currentSimilarity * 100)}%
+            </span>
+          </div>
+          <button
+            onClick={acceptRehomeSuggestion}
+            className="px-3 py-1 text-xs rounded-lg bg-storm-600 hover:bg-storm-700 text-white transition-colors cursor-pointer"
+          >
+            Move
+          </button>
+          <button
+            onClick={dismissRehomeSuggestion}
+            className="p-1 hover:bg-white/10 rounded transition-colors cursor-pointer"
+            aria-label="Dismiss suggestion"
+          >
+            <X className="w-4 h-4 text-white/40" />
+          </button>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,145 @@
+import { useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ArrowRight, Network, Pin, X } from 'lucide-react';
+import { useGraphStore } from '../store/graphStore';
+import { KEYBINDS, matchesKeybind } from '../config/keybinds';
+
+/**
+ * Before/after diff of a proposed whole-graph re-organize, applied in one undo step
+ */
+export default function ReorganizeReview() {
+  const { reorganizeProposal: proposal, nodes, applyReorganize, dismissReorganize } = useGraphStore();
+
+  const labelOf = (id: string | undefined) => {
+    if (!id || id === 'root') return null;
+    return nodes.find((n) => n.id === id)?.data.label ?? null;
+  };
+
+  // Moves grouped under their new parent, new topics first
+  const groups = new Map<string, NonNullable<typeof proposal>['moves']>();
+  for (const move of proposal?.moves ?? []) {
+    groups.set(move.toParentId, [...(groups.get(move.toParentId) ?? []), move]);
+  }
+  const sortedGroups = [...groups.entries()].sort(([a], [b]) => (a === 'root' ? -1 : b === 'root' ? 1 : 0));
+
+  useEffect(() => {
+    if (!proposal) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (matchesKeybind(e, KEYBINDS.ESCAPE)) {
+        e.preventDefault();
+        dismissReorganize();
+      } else if (matchesKeybind(e, KEYBINDS.ENTER) && proposal.moves.length > 0) {
+        e.preventDefault();
+        applyReorganize();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown, true);
+    return () => document.removeEventListener('keydown', handleKeyDown, true);
+  }, [proposal, applyReorganize, dismissReorganize]);
+
+  return (
+    <AnimatePresence>
+      {proposal && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50"
+            onClick={dismissReorganize}
+          />
+
+          {/* Modal */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, x: '-50%', y: '-50%' }}
+            animate={{ opacity: 1, scale: 1, x: '-50%', y: '-50%' }}
+            exit={{ opacity: 0, scale: 0.95, x: '-50%', y: '-50%' }}
+            transition={{ type: 'spring', stiffness: 400, damping: 30 }}
+            className="fixed w-full max-w-lg z-50"
+            style={{
+              top: '50%',
+              left: '50%',
+            }}
+          >
+            <div className="bg-gray-900/95 backdrop-blur-xl border border-white/10 rounded-xl shadow-2xl overflow-hidden flex flex-col max-h-[80vh]">
+              {/* Header */}
+              <div className="flex items-center justify-between p-4 border-b border-white/10">
+                <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+                  <Network className="w-5 h-5 text-storm-400" />
+                  Re-organize graph
+                </h3>
+                <button
+                  onClick={dismissReorganize}
+                  className="p-1 hover:bg-white/10 rounded transition-colors cursor-pointer"
+                >
+                  <X className="w-4 h-4 text-white/40" />
+                </button>
+              </div>
+
+              {/* Summary */}
+              <div className="px-6 pt-4 text-sm text-white/70 space-y-1">
+                <p>
+                  {proposal.moves.length === 0
+                    ? 'Every idea is already where re-organizing would put it.'
+                    : `${proposal.moves.length} ${proposal.moves.length === 1 ? 'idea moves' : 'ideas move'}, topics ${proposal.topicsBefore} → ${proposal.topicsAfter}.`}
+                </p>
+                {proposal.preservedCount > 0 && (
+                  <p className="text-xs text-white/40 flex items-center gap-1.5">
+                    <Pin className="w-3 h-3" />
+                    {proposal.preservedCount} pinned or hand-placed {proposal.preservedCount === 1 ? 'idea stays' : 'ideas stay'} where {proposal.preservedCount === 1 ? 'it is' : 'they are'}.
+                  </p>
+                )}
+              </div>
+
+              {/* Diff */}
+              <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+                {sortedGroups.map(([parentId, moves]) => (
+                  <section key={parentId}>
+                    <h4 className="text-xs font-medium text-white/60 uppercase tracking-wider mb-1.5">
+                      {parentId === 'root' ? 'New topics' : `Under "${labelOf(parentId)}"`}
+                    </h4>
+                    <ul className="space-y-1 text-sm">
+                      {moves.map((move) => (
+                        <li key={move.nodeId} className="flex items-center gap-2 min-w-0">
+                          <span className="text-white truncate">{labelOf(move.nodeId)}</span>
+                          <span className="ml-auto flex items-center gap-1.5 text-xs text-white/40 shrink-0">
+                            <span className="truncate max-w-[120px]">{labelOf(move.fromParentId) ?? 'topic'}</span>
+                            <ArrowRight className="w-3 h-3" />
+                            <span className="truncate max-w-[120px] text-white/60">{labelOf(move.toParentId) ?? 'topic'}</span>
+                            {move.similarity !== undefined && (
+                              <span className="font-mono">{Math.round(move.similarity * 100)}%</span>
+                            )}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </section>
+                ))}
+              </div>
+
+              {/* Footer */}
+              <div className="flex items-center justify-end gap-3 p-4 border-t border-white/10">
+                <button
+                  onClick={dismissReorganize}
+                  className="px-4 py-2 text-sm text-white/70 hover:text-white hover:bg-white/5 rounded-lg transition-colors cursor-pointer"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={applyReorganize}
+                  disabled={proposal.moves.length === 0}
+                  className="px-4 py-2 text-sm text-white rounded-lg transition-colors cursor-pointer bg-storm-600 hover:bg-storm-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  Apply
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
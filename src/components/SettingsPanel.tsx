@@ -10,19 +10,33 @@ import {
   Download,
   Trash2,
   Zap,
+  Save,
+  Globe,
+  HardDrive,
+  AlertTriangle,
+  Database,
 } from 'lucide-react';
 import { useSettingsStore, type EmbeddingProvider } from '../store/settingsStore';
 import {
   LOCAL_MODELS,
   type LocalModelKey,
+  type ModelSource,
   loadModel,
   isModelLoaded,
   getCurrentModel,
+  getCurrentModelSource,
   unloadModel,
   subscribeToProgress,
 } from '../utils/localEmbeddings';
+import { updateServerProvider } from '../utils/api';
+import {
+  EMBEDDING_CACHE_MAX_ENTRIES,
+  getEmbeddingCacheSize,
+  clearEmbeddingCache,
+} from '../utils/embeddingCache';
 import { KEYBINDS, matchesKeybind } from '../config/keybinds';
 import { KeybindHintWithLabel } from './KeybindHint';
+import ClusteringSettingsSection from './ClusteringSettingsSection';
 
 export default function SettingsPanel() {
   const {
@@ -38,9 +52,42 @@ export default function SettingsPanel() {
     setModelLoadingState,
     isModelReady,
     setModelReady,
+    serverProvider,
+    setServerProvider,
+    modelSource,
+    setModelSource,
+    modelLoadError,
+    setModelLoadError,
   } = useSettingsStore();
 
   const [loadingModel, setLoadingModel] = useState<string | null>(null);
+  const [providerForm, setProviderForm] = useState({
+    baseUrl: '',
+    embeddingModel: '',
+    chatModel: '',
+    embeddingDimensions: '',
+  });
+  const [adminToken, setAdminToken] = useState('');
+  const [providerError, setProviderError] = useState<string | null>(null);
+  const [isSavingProvider, setIsSavingProvider] = useState(false);
+  const [cacheSize, setCacheSize] = useState<number | null>(null);
+
+  // Fill the provider form from what the server reports
+  useEffect(() => {
+    if (!serverProvider || !isSettingsOpen) return;
+    setProviderForm({
+      baseUrl: serverProvider.baseUrl || '',
+      embeddingModel: serverProvider.embeddingModel,
+      chatModel: serverProvider.chatModel,
+      embeddingDimensions: serverProvider.configuredDimensions ? String(serverProvider.configuredDimensions) : '',
+    });
+  }, [serverProvider, isSettingsOpen]);
+
+  // Count cached embeddings whenever the panel opens
+  useEffect(() => {
+    if (!isSettingsOpen) return;
+    getEmbeddingCacheSize().then(setCacheSize);
+  }, [isSettingsOpen]);
 
   // Subscribe to progress updates
   useEffect(() => {
@@ -77,11 +124,20 @@ export default function SettingsPanel() {
     setEmbeddingProvider(provider);
 
     // If switching to local and model not loaded, prompt to load
-    if (provider === 'local' && (!isModelLoaded() || getCurrentModel() !== localModel)) {
+    if (provider === 'local' && !currentModelLoaded) {
       await handleLoadModel(localModel);
     }
   };
 
+  const handleSourceChange = async (source: ModelSource) => {
+    setModelSource(source);
+
+    // Reload the model from the new source
+    if (embeddingProvider === 'local') {
+      await handleLoadModel(localModel, source);
+    }
+  };
+
   const handleModelChange = async (modelKey: LocalModelKey) => {
     setLocalModel(modelKey);
 
@@ -91,16 +147,18 @@ export default function SettingsPanel() {
     }
   };
 
-  const handleLoadModel = async (modelKey: LocalModelKey) => {
+  const handleLoadModel = async (modelKey: LocalModelKey, source: ModelSource = modelSource) => {
     setLoadingModel(modelKey);
     setModelLoadingState(true, 0, 'Initializing...');
+    setModelLoadError(null);
 
     try {
-      await loadModel(modelKey);
+      await loadModel(modelKey, source);
       setModelReady(true);
     } catch (error) {
       console.error('Failed to load model:', error);
       setModelReady(false);
+      setModelLoadError(error instanceof Error ? error.message : String(error));
     } finally {
       setLoadingModel(null);
       setModelLoadingState(false, 100, 'Ready');
@@ -112,7 +170,38 @@ export default function SettingsPanel() {
     setModelReady(false);
   };
 
-  const currentModelLoaded = isModelLoaded() && getCurrentModel() === localModel;
+  const handleClearCache = async () => {
+    try {
+      await clearEmbeddingCache();
+    } catch (error) {
+      console.error('Failed to clear embedding cache:', error);
+    }
+    setCacheSize(await getEmbeddingCacheSize());
+  };
+
+  const handleSaveProvider = async () => {
+    setIsSavingProvider(true);
+    setProviderError(null);
+
+    try {
+      const provider = await updateServerProvider({
+        baseUrl: providerForm.baseUrl || null,
+        embeddingModel: providerForm.embeddingModel,
+        chatModel: providerForm.chatModel,
+        embeddingDimensions: providerForm.embeddingDimensions ? Number(providerForm.embeddingDimensions) : null,
+      }, adminToken || undefined);
+      setServerProvider(provider);
+    } catch (error) {
+      console.error('Failed to update provider:', error);
+      // fetch rejects with a TypeError when the server can't be reached
+      setProviderError(error instanceof TypeError ? 'Could not reach the server' : (error as Error).message);
+    } finally {
+      setIsSavingProvider(false);
+    }
+  };
+
+  const currentModelLoaded =
+    isModelLoaded() && getCurrentModel() === localModel && getCurrentModelSource() === modelSource;
 
   return (
     <>
@@ -193,7 +282,7 @@ export default function SettingsPanel() {
                             )}
                           </div>
                           <p className="text-sm text-white/50 mt-1">
-                            Uses OpenAI API or mock embeddings. Requires network connection.
+                            Uses an OpenAI-compatible API or mock embeddings. Requires network connection.
                           </p>
                         </div>
                       </div>
@@ -233,6 +322,75 @@ export default function SettingsPanel() {
                   </div>
                 </section>
 
+                {/* Server Provider Configuration */}
+                {embeddingProvider === 'server' && (
+                  <section>
+                    <h3 className="text-sm font-medium text-white/80 uppercase tracking-wider mb-3">
+                      Server Provider
+                    </h3>
+
+                    {serverProvider ? (
+                      <div className="space-y-3">
+                        <p className="text-sm text-white/50">
+                          {serverProvider.provider === 'mock'
+                            ? 'No API key or base URL configured, the server uses mock embeddings.'
+                            : `Using ${serverProvider.baseUrl || 'api.openai.com'}`}
+                          {serverProvider.embeddingDimensions && ` (${serverProvider.embeddingDimensions} dims)`}
+                        </p>
+
+                        {([
+                          ['baseUrl', 'Base URL', 'https://api.openai.com/v1'],
+                          ['embeddingModel', 'Embedding model', 'text-embedding-3-small'],
+                          ['chatModel', 'Chat model', 'gpt-4o-mini'],
+                          ['embeddingDimensions', 'Dimensions', "Model's default"],
+                        ] as const).map(([field, label, placeholder]) => (
+                          <label key={field} className="block">
+                            <span className="text-xs text-white/50">{label}</span>
+                            <input
+                              type={field === 'embeddingDimensions' ? 'number' : 'text'}
+                              value={providerForm[field]}
+                              placeholder={placeholder}
+                              onChange={(e) => setProviderForm((form) => ({ ...form, [field]: e.target.value }))}
+                              className="mt-1 w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-sm text-white placeholder-white/30 focus:outline-none focus:border-storm-500/50"
+                            />
+                          </label>
+                        ))}
+
+                        <label className="block">
+                          <span className="text-xs text-white/50">Admin token</span>
+                          <input
+                            type="password"
+                            value={adminToken}
+                            placeholder="Only if BRAINSTORMY_ADMIN_TOKEN is set"
+                            onChange={(e) => setAdminToken(e.target.value)}
+                            className="mt-1 w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-sm text-white placeholder-white/30 focus:outline-none focus:border-storm-500/50"
+                          />
+                        </label>
+
+                        {providerError && (
+                          <p className="text-xs text-red-400">{providerError}</p>
+                        )}
+
+                        <button
+                          onClick={handleSaveProvider}
+                          disabled={isSavingProvider}
+                          className="w-full p-3 rounded-lg bg-storm-600/20 border border-storm-500/50 text-white text-sm hover:bg-storm-600/30 transition-colors flex items-center justify-center gap-2 cursor-pointer disabled:opacity-60 disabled:cursor-not-allowed"
+                        >
+                          {isSavingProvider ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+                          Save Provider
+                        </button>
+                        <p className="text-xs text-white/30">
+                          Applies to everyone until the server restarts. Set OPENAI_BASE_URL, EMBEDDING_MODEL, CHAT_MODEL and
+                          EMBEDDING_DIMENSIONS to make it permanent. The server's OPENAI_API_KEY is never sent to a base
+                          URL set here.
+                        </p>
+                      </div>
+                    ) : (
+                      <p className="text-sm text-white/50">Server unreachable.</p>
+                    )}
+                  </section>
+                )}
+
                 {/* Local Model Selection */}
                 {embeddingProvider === 'local' && (
                   <section>
@@ -240,6 +398,40 @@ export default function SettingsPanel() {
                       Local Model
                     </h3>
 
+                    {/* Model Source */}
+                    <div className="grid grid-cols-2 gap-2 mb-3">
+                      {([
+                        ['hub', 'Hugging Face', Globe],
+                        ['bundled', 'This server', HardDrive],
+                      ] as const).map(([source, label, Icon]) => (
+                        <button
+                          key={source}
+                          onClick={() => handleSourceChange(source)}
+                          disabled={isModelLoading}
+                          className={`p-2 rounded-lg border text-sm flex items-center justify-center gap-2 transition-all ${
+                            modelSource === source
+                              ? 'bg-white/10 border-white/30 text-white'
+                              : 'bg-white/5 border-white/10 text-white/60 hover:bg-white/10'
+                          } ${isModelLoading ? 'opacity-60 cursor-not-allowed' : 'cursor-pointer'}`}
+                        >
+                          <Icon size={14} />
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                    {modelSource === 'bundled' && (
+                      <p className="text-xs text-white/40 mb-3">
+                        Loads model files from the server's models folder (BRAINSTORMY_MODELS_DIR), so no internet access is needed.
+                      </p>
+                    )}
+
+                    {modelLoadError && (
+                      <div className="mb-3 p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-xs text-red-300 flex items-start gap-2">
+                        <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+                        <span>{modelLoadError}</span>
+                      </div>
+                    )}
+
                     <div className="space-y-2">
                       {Object.entries(LOCAL_MODELS).map(([key, model]) => {
                         const isSelected = localModel === key;
@@ -318,6 +510,33 @@ export default function SettingsPanel() {
                   </section>
                 )}
 
+                <ClusteringSettingsSection />
+
+                {/* Embedding Cache */}
+                <section>
+                  <h3 className="text-sm font-medium text-white/80 uppercase tracking-wider mb-3">
+                    Embedding Cache
+                  </h3>
+                  <div className="p-4 rounded-xl bg-white/5 border border-white/10">
+                    <div className="flex items-start gap-3">
+                      <Database size={20} className="text-white/50 shrink-0 mt-0.5" />
+                      <div className="text-sm text-white/50">
+                        {cacheSize === null ? '...' : cacheSize.toLocaleString()} of{' '}
+                        {EMBEDDING_CACHE_MAX_ENTRIES.toLocaleString()} labels cached in this browser.
+                        Repeated labels skip the model, least recently used entries are dropped first.
+                      </div>
+                    </div>
+                    <button
+                      onClick={handleClearCache}
+                      disabled={!cacheSize}
+                      className="mt-3 w-full p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm hover:bg-red-500/20 transition-colors flex items-center justify-center gap-2 cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                      <Trash2 size={16} />
+                      Clear Embedding Cache
+                    </button>
+                  </div>
+                </section>
+
                 {/* Info Section */}
                 <section className="p-4 rounded-xl bg-white/5 border border-white/10">
                   <h4 className="text-sm font-medium text-white/80 mb-2">
@@ -329,6 +548,7 @@ export default function SettingsPanel() {
                     <li>- Zero network latency for embeddings</li>
                     <li>- Works completely offline after download</li>
                     <li>- Uses WebAssembly for fast inference</li>
+                    <li>- Runs in a background worker, so the UI never freezes</li>
                   </ul>
                 </section>
 
@@ -342,6 +562,7 @@ export default function SettingsPanel() {
                     <KeybindHintWithLabel keybind={KEYBINDS.COMMAND_PALETTE} kbdClassName="px-1.5 py-0.5 bg-white/10 rounded text-xs" />
                     <KeybindHintWithLabel keybind={KEYBINDS.PROJECTS_SIDEBAR} kbdClassName="px-1.5 py-0.5 bg-white/10 rounded text-xs" />
                     <KeybindHintWithLabel keybind={KEYBINDS.TOGGLE_MODE} kbdClassName="px-1.5 py-0.5 bg-white/10 rounded text-xs" />
+                    <KeybindHintWithLabel keybind={KEYBINDS.CYCLE_PLACEMENT} kbdClassName="px-1.5 py-0.5 bg-white/10 rounded text-xs" />
                   </div>
                 </section>
               </div>
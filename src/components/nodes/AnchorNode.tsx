@@ -1,10 +1,11 @@
 import { memo, useState, useRef, useEffect } from 'react';
 import { Handle, Position } from '@xyflow/react';
 import { motion } from 'framer-motion';
-import { Sparkles, Trash2, Edit2, Check, X } from 'lucide-react';
+import { Sparkles, Trash2, Edit2, Check, X, Pin, StickyNote } from 'lucide-react';
 import type { BrainstormNode } from '../../types';
 import { useGraphStore } from '../../store/graphStore';
 import { KEYBINDS, matchesKeybind } from '../../config/keybinds';
+import NodeNotesEditor from './NodeNotesEditor';
 
 interface AnchorNodeProps {
   data: BrainstormNode['data'];
@@ -13,10 +14,11 @@ interface AnchorNodeProps {
 }
 
 function AnchorNode({ data, id, selected }: AnchorNodeProps) {
-  const { editingNodeId, setEditingNodeId, updateNodeLabel, deleteNode } = useGraphStore();
+  const { editingNodeId, setEditingNodeId, notesNodeId, setNotesNodeId, updateNodeLabel, deleteNode } = useGraphStore();
   const [editValue, setEditValue] = useState(data.label);
   const inputRef = useRef<HTMLInputElement>(null);
   const isEditing = editingNodeId === id;
+  const isEditingNotes = notesNodeId === id;
 
   useEffect(() => {
     if (isEditing && inputRef.current) {
@@ -79,6 +81,10 @@ function AnchorNode({ data, id, selected }: AnchorNodeProps) {
           style={{ color: data.color || '#636ef1' }}
         >
           Topic
+          {/* Named topics differ from the anchor's own label */}
+          {id !== 'root' && data.topic && data.topic !== data.label && (
+            <span className="normal-case tracking-normal"> · {data.topic}</span>
+          )}
         </span>
       </div>
 
@@ -107,7 +113,13 @@ function AnchorNode({ data, id, selected }: AnchorNodeProps) {
         </div>
       ) : (
         <div className="text-white text-sm font-semibold leading-tight break-words">
+          {data.pinned && <Pin size={11} className="inline mr-1 text-white/50" />}
           {data.label}
+          {data.notes && (
+            <span title={data.notes}>
+              <StickyNote size={11} className="inline ml-1 text-white/40" />
+            </span>
+          )}
         </div>
       )}
 
@@ -120,6 +132,13 @@ function AnchorNode({ data, id, selected }: AnchorNodeProps) {
           >
             <Edit2 size={12} className="text-white" />
           </button>
+          <button
+            onClick={() => setNotesNodeId(isEditingNotes ? null : id)}
+            className="p-1.5 bg-white/20 hover:bg-white/30 rounded-full transition-colors backdrop-blur-sm cursor-pointer"
+            title="Notes"
+          >
+            <StickyNote size={12} className="text-white" />
+          </button>
           {id !== 'root' && (
             <button
               onClick={() => deleteNode(id)}
@@ -131,6 +150,8 @@ function AnchorNode({ data, id, selected }: AnchorNodeProps) {
         </div>
       )}
 
+      {isEditingNotes && <NodeNotesEditor id={id} notes={data.notes} />}
+
       <Handle
         type="source"
         position={Position.Right}
@@ -0,0 +1,51 @@
+import { memo } from 'react';
+import { Handle, Position } from '@xyflow/react';
+import { motion } from 'framer-motion';
+import { Check, X } from 'lucide-react';
+import { useGraphStore } from '../../store/graphStore';
+
+interface GhostNodeProps {
+  data: { label: string; color?: string };
+  id: string;
+}
+
+// Suggested child from "expand node": not part of the graph until accepted
+function GhostNode({ data, id }: GhostNodeProps) {
+  const { acceptGhost, rejectGhost } = useGraphStore();
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, x: -10 }}
+      animate={{ opacity: 1, x: 0 }}
+      transition={{ type: 'spring', stiffness: 400, damping: 30 }}
+      className="relative flex items-center gap-2 pl-4 pr-2 py-1.5 rounded-lg min-w-[140px] max-w-[260px] bg-white/[0.03] border border-dashed border-white/20"
+      style={{ borderLeftColor: data.color || '#636ef1', borderLeftWidth: '3px', borderLeftStyle: 'dashed' }}
+    >
+      <Handle
+        type="target"
+        position={Position.Left}
+        className="!w-2 !h-2 !bg-transparent !border-0"
+      />
+
+      <div className="flex-1 text-white/60 text-sm leading-tight break-words italic">
+        {data.label}
+      </div>
+      <button
+        onClick={() => acceptGhost(id)}
+        className="p-1 hover:bg-white/20 rounded transition-colors cursor-pointer"
+        title="Add"
+      >
+        <Check size={12} className="text-green-400" />
+      </button>
+      <button
+        onClick={() => rejectGhost(id)}
+        className="p-1 hover:bg-white/20 rounded transition-colors cursor-pointer"
+        title="Dismiss"
+      >
+        <X size={12} className="text-red-400" />
+      </button>
+    </motion.div>
+  );
+}
+
+export default memo(GhostNode);
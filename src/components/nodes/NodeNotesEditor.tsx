@@ -0,0 +1,71 @@
+import { useState, useRef, useEffect } from 'react';
+import { Check, X } from 'lucide-react';
+import { useGraphStore } from '../../store/graphStore';
+import { KEYBINDS, matchesKeybind } from '../../config/keybinds';
+
+interface NodeNotesEditorProps {
+  id: string;
+  notes?: string;
+}
+
+/**
+ * Markdown notes editor that unfolds below a node. It floats over the canvas
+ * instead of growing the node, so the layout doesn't shift while typing.
+ */
+export default function NodeNotesEditor({ id, notes }: NodeNotesEditorProps) {
+  const { setNotesNodeId, updateNodeNotes } = useGraphStore();
+  const [value, setValue] = useState(notes ?? '');
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    textareaRef.current?.focus();
+  }, []);
+
+  const handleSave = () => {
+    updateNodeNotes(id, value);
+    setNotesNodeId(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (matchesKeybind(e.nativeEvent, KEYBINDS.SAVE_NOTES)) {
+      e.preventDefault();
+      handleSave();
+    } else if (matchesKeybind(e.nativeEvent, KEYBINDS.ESCAPE)) {
+      setNotesNodeId(null);
+    }
+    e.stopPropagation();
+  };
+
+  return (
+    <div className="nodrag nowheel cursor-default absolute left-0 top-full mt-2 w-[280px] z-10 p-2 space-y-1.5 rounded-lg bg-gray-900/95 backdrop-blur-xl border border-white/15 shadow-xl">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={handleKeyDown}
+        rows={6}
+        placeholder="Notes, links, snippets (Markdown)..."
+        className="w-full resize-y bg-white/5 text-white/90 text-xs font-mono rounded px-2 py-1.5 outline-none focus:ring-2 focus:ring-white/20 placeholder-white/30"
+      />
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] text-white/30">{KEYBINDS.SAVE_NOTES.displayText} to save</span>
+        <div className="flex gap-1">
+          <button
+            onClick={handleSave}
+            className="p-1 hover:bg-white/20 rounded transition-colors cursor-pointer"
+            aria-label="Save notes"
+          >
+            <Check size={12} className="text-green-400" />
+          </button>
+          <button
+            onClick={() => setNotesNodeId(null)}
+            className="p-1 hover:bg-white/20 rounded transition-colors cursor-pointer"
+            aria-label="Discard changes"
+          >
+            <X size={12} className="text-red-400" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
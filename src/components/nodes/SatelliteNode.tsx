@@ -1,10 +1,11 @@
 import { memo, useState, useRef, useEffect } from 'react';
 import { Handle, Position } from '@xyflow/react';
 import { motion } from 'framer-motion';
-import { Trash2, Edit2, Check, X } from 'lucide-react';
+import { Trash2, Edit2, Check, X, Loader2, AlertCircle, RotateCw, Pin, StickyNote } from 'lucide-react';
 import type { BrainstormNode } from '../../types';
 import { useGraphStore } from '../../store/graphStore';
 import { KEYBINDS, matchesKeybind } from '../../config/keybinds';
+import NodeNotesEditor from './NodeNotesEditor';
 
 interface SatelliteNodeProps {
   data: BrainstormNode['data'];
@@ -13,10 +14,13 @@ interface SatelliteNodeProps {
 }
 
 function SatelliteNode({ data, id, selected }: SatelliteNodeProps) {
-  const { editingNodeId, setEditingNodeId, updateNodeLabel, deleteNode } = useGraphStore();
+  const { editingNodeId, setEditingNodeId, notesNodeId, setNotesNodeId, updateNodeLabel, deleteNode, retryPendingNode } = useGraphStore();
   const [editValue, setEditValue] = useState(data.label);
   const inputRef = useRef<HTMLInputElement>(null);
-  const isEditing = editingNodeId === id;
+  // Placeholders of queued adds can't be edited until they are placed
+  const isEditing = editingNodeId === id && !data.pending;
+  const isEditingNotes = notesNodeId === id && !data.pending;
+  const addError = data.pending?.error;
 
   useEffect(() => {
     if (isEditing && inputRef.current) {
@@ -58,6 +62,8 @@ function SatelliteNode({ data, id, selected }: SatelliteNodeProps) {
         backdrop-blur-md bg-white/5
         border transition-all duration-200 group
         ${selected ? 'border-white/40 bg-white/10' : 'border-white/10'}
+        ${data.pending ? 'border-dashed' : ''}
+        ${addError ? 'border-red-500/40' : ''}
         hover:border-white/30 hover:bg-white/10
       `}
       style={{
@@ -94,21 +100,58 @@ function SatelliteNode({ data, id, selected }: SatelliteNodeProps) {
             <X size={12} className="text-red-400" />
           </button>
         </div>
+      ) : data.pending ? (
+        <div
+          className={`flex items-center gap-2 text-sm leading-tight break-words ${addError ? 'text-red-300/90' : 'text-white/50'}`}
+          title={addError ? `Couldn't add: ${addError}` : 'Waiting for embedding...'}
+        >
+          {addError ? (
+            <AlertCircle size={12} className="shrink-0" />
+          ) : (
+            <Loader2 size={12} className="shrink-0 animate-spin" />
+          )}
+          {data.label}
+        </div>
       ) : (
         <div className="text-white/90 text-sm leading-tight break-words">
+          {data.pinned && <Pin size={10} className="inline mr-1 text-white/50" />}
           {data.label}
+          {data.notes && (
+            <span title={data.notes}>
+              <StickyNote size={10} className="inline ml-1 text-white/40" />
+            </span>
+          )}
         </div>
       )}
 
       {/* Actions */}
       {!isEditing && (
-        <div className="absolute -top-1.5 -right-1.5 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-          <button
-            onClick={() => setEditingNodeId(id)}
-            className="p-1 bg-white/20 hover:bg-white/30 rounded-full transition-colors backdrop-blur-sm cursor-pointer"
-          >
-            <Edit2 size={10} className="text-white" />
-          </button>
+        <div className={`absolute -top-1.5 -right-1.5 flex gap-1 transition-opacity ${addError ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}>
+          {addError ? (
+            <button
+              onClick={() => retryPendingNode(id)}
+              className="p-1 bg-white/20 hover:bg-white/30 rounded-full transition-colors backdrop-blur-sm cursor-pointer"
+              title="Retry"
+            >
+              <RotateCw size={10} className="text-white" />
+            </button>
+          ) : !data.pending && (
+            <>
+              <button
+                onClick={() => setEditingNodeId(id)}
+                className="p-1 bg-white/20 hover:bg-white/30 rounded-full transition-colors backdrop-blur-sm cursor-pointer"
+              >
+                <Edit2 size={10} className="text-white" />
+              </button>
+              <button
+                onClick={() => setNotesNodeId(isEditingNotes ? null : id)}
+                className="p-1 bg-white/20 hover:bg-white/30 rounded-full transition-colors backdrop-blur-sm cursor-pointer"
+                title="Notes"
+              >
+                <StickyNote size={10} className="text-white" />
+              </button>
+            </>
+          )}
           <button
             onClick={() => deleteNode(id)}
             className="p-1 bg-red-500/30 hover:bg-red-500/50 rounded-full transition-colors backdrop-blur-sm cursor-pointer"
@@ -118,6 +161,8 @@ function SatelliteNode({ data, id, selected }: SatelliteNodeProps) {
         </div>
       )}
 
+      {isEditingNotes && <NodeNotesEditor id={id} notes={data.notes} />}
+
       <Handle
         type="source"
         position={Position.Right}
@@ -1,9 +1,11 @@
 import AnchorNode from './AnchorNode';
 import SatelliteNode from './SatelliteNode';
+import GhostNode from './GhostNode';
 
 export const nodeTypes = {
   anchor: AnchorNode,
   satellite: SatelliteNode,
+  ghost: GhostNode,
 };
 
-export { AnchorNode, SatelliteNode };
+export { AnchorNode, SatelliteNode, GhostNode };
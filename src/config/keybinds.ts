@@ -80,6 +80,56 @@ export const KEYBINDS = {
     description: 'Delete node',
     displayText: 'Del',
   },
+  LINK_NODE: {
+    key: 'l',
+    ctrl: false,
+    meta: false,
+    description: 'Link to another node',
+    displayText: 'L',
+  },
+  MOVE_NODE: {
+    key: 'm',
+    ctrl: false,
+    meta: false,
+    description: 'Move node',
+    displayText: 'M',
+  },
+  INSPECT_NODE: {
+    key: 'i',
+    ctrl: false,
+    meta: false,
+    description: 'Inspect node',
+    displayText: 'I',
+  },
+  EXPAND_NODE: {
+    key: 'x',
+    ctrl: false,
+    meta: false,
+    description: 'Expand with AI',
+    displayText: 'X',
+  },
+  EDIT_NOTES: {
+    key: 'n',
+    ctrl: false,
+    meta: false,
+    description: 'Edit notes',
+    displayText: 'N',
+  },
+  TOGGLE_CHAT: {
+    key: 'c',
+    ctrl: false,
+    meta: false,
+    description: 'Chat about graph',
+    displayText: 'C',
+  },
+  CYCLE_PLACEMENT: {
+    key: 'j',
+    ctrl: true,
+    meta: true,
+    shift: false,
+    description: 'Try next best parent',
+    displayText: 'Cmd+J',
+  },
 
   // Navigation
   NAVIGATE_UP: {
@@ -131,6 +181,13 @@ export const KEYBINDS = {
     description: 'Confirm/Add',
     displayText: 'Enter',
   },
+  SAVE_NOTES: {
+    key: 'Enter',
+    ctrl: true,
+    meta: true,
+    description: 'Save notes',
+    displayText: 'Cmd+Enter',
+  },
 } as const;
 
 /**
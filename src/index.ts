@@ -1,22 +1,55 @@
 import { serve } from "bun";
 import index from "./index.html";
-import OpenAI from "openai";
-
-// Initialize OpenAI client only if API key is present
-let openai: OpenAI | null = null;
-if (process.env.OPENAI_API_KEY) {
-  openai = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-  });
+import {
+  listProjects,
+  getProject,
+  saveProject,
+  deleteProject,
+  isValidProject,
+} from "./server/projectDb";
+import {
+  MOCK_EMBEDDING_DIMENSIONS,
+  getOpenAIClient,
+  getProviderConfig,
+  getProviderInfo,
+  getEmbeddingParams,
+  updateProviderConfig,
+  recordEmbeddingDimensions,
+} from "./server/providerConfig";
+import { EMBEDDING_WORKER_PATH, getEmbeddingWorkerBundle } from "./server/embeddingWorkerBundle";
+import { MODELS_DIR, resolveModelFile, resolveOrtWasmFile, listBundledModels } from "./server/localModels";
+import {
+  getCachedEmbedding,
+  cacheEmbeddings,
+  getEmbeddingCacheStats,
+  clearEmbeddingCache,
+  exportEmbeddingCache,
+} from "./server/embeddingCache";
+import { parseExpandRequest, streamExpansions } from "./server/expand";
+import { formatSuggestionContext, generateMockSuggestions, takenLabels } from "./server/suggest";
+import { chatWithGraph, mockChatReply, parseChatRequest } from "./server/chat";
+import { parseOutline, summarizeOutline, templateSummary } from "./server/summarize";
+
+// Optional token guarding the admin routes (unset = open, like the rest of the API)
+const ADMIN_TOKEN = process.env.BRAINSTORMY_ADMIN_TOKEN;
+
+function isAdmin(req: Request): boolean {
+  return !ADMIN_TOKEN || req.headers.get('Authorization') === `Bearer ${ADMIN_TOKEN}`;
 }
 
-// In-memory cache for embeddings
-const embeddingCache = new Map<string, number[]>();
+// Labels sent to the LLM when naming a topic; the rest rarely changes the name
+const TOPIC_NAME_MAX_LABELS = 40;
+
+// Embedding cache key for the configured model (mock embeddings are cheap and never cached)
+function embeddingCacheModel(): string {
+  const { baseUrl, embeddingModel, embeddingDimensions } = getProviderConfig();
+  return `${baseUrl || 'openai'}|${embeddingModel}|${embeddingDimensions || ''}`;
+}
 
 // Mock embedding generator (semantic-aware for common categories)
 function generateMockEmbedding(text: string): number[] {
   const t = text.toLowerCase();
-  const dim = 256;
+  const dim = MOCK_EMBEDDING_DIMENSIONS;
   const embedding = new Array(dim).fill(0);
 
   let seed = 0;
@@ -55,45 +88,169 @@ function generateMockEmbedding(text: string): number[] {
   return embedding.map(v => v / magnitude);
 }
 
-// Mock suggestions generator
-function generateMockSuggestions(focusedNode: string): string[] {
-  const suggestionMap: Record<string, string[]> = {
-    'game': ['Multiplayer', 'Story Mode', 'Achievements'],
-    'graphics': ['Pixel Art', 'Low Poly', 'Shaders'],
-    'mechanics': ['Combat System', 'Skill Tree', 'Inventory'],
-    'audio': ['Background Music', 'Sound Effects', 'Voice Acting'],
-    'mining': ['Ore Types', 'Mining Tools', 'Gem Deposits'],
-    'crafting': ['Recipe System', 'Material Tiers', 'Workbenches'],
-    'market': ['Trading Post', 'Auction House', 'Price History'],
-  };
-
-  const lowerNode = (focusedNode || '').toLowerCase();
-
-  for (const [key, suggestions] of Object.entries(suggestionMap)) {
-    if (lowerNode.includes(key)) {
-      return suggestions;
-    }
-  }
-
-  return ['Sub-topic 1', 'Related Idea', 'Expansion'];
-}
-
 const server = serve({
   routes: {
     // Serve index.html for all unmatched routes
     "/*": index,
 
+    // Web Worker that runs local embedding models
+    [EMBEDDING_WORKER_PATH]: {
+      async GET() {
+        try {
+          return new Response(await getEmbeddingWorkerBundle(), {
+            headers: { 'Content-Type': 'text/javascript' },
+          });
+        } catch (error) {
+          console.error('Embedding worker bundle error:', error);
+          return new Response('Failed to bundle embedding worker', { status: 500 });
+        }
+      }
+    },
+
+    // Admin: export (GET) or clear (DELETE) the server embedding cache
+    "/api/admin/embedding-cache": {
+      async GET(req) {
+        if (!isAdmin(req)) {
+          return Response.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        return new Response(exportEmbeddingCache(), {
+          headers: {
+            'Content-Type': 'application/json',
+            'Content-Disposition': 'attachment; filename="embedding-cache.json"',
+          },
+        });
+      },
+      async DELETE(req) {
+        if (!isAdmin(req)) {
+          return Response.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        return Response.json({ cleared: clearEmbeddingCache() });
+      },
+    },
+
+    // Bundled ONNX models for offline local embeddings
+    "/models/*": {
+      async GET(req) {
+        const relativePath = new URL(req.url).pathname.slice('/models/'.length);
+        const filePath = resolveModelFile(relativePath);
+        const file = filePath ? Bun.file(filePath) : null;
+
+        if (!file || !(await file.exists())) {
+          return new Response('Model file not found', { status: 404 });
+        }
+        return new Response(file);
+      }
+    },
+
+    // ONNX Runtime wasm files for the embedding worker (no CDN needed offline)
+    "/ort/*": {
+      async GET(req) {
+        const filePath = resolveOrtWasmFile(new URL(req.url).pathname.slice('/ort/'.length));
+        const file = filePath ? Bun.file(filePath) : null;
+
+        if (!file || !(await file.exists())) {
+          return new Response('Runtime file not found', { status: 404 });
+        }
+        return new Response(file);
+      }
+    },
+
+    "/api/models": {
+      async GET() {
+        return Response.json({ modelsDir: MODELS_DIR, models: await listBundledModels() });
+      }
+    },
+
     // Health check
     "/api/health": {
       async GET() {
         return Response.json({
           status: 'ok',
-          hasOpenAI: !!process.env.OPENAI_API_KEY,
+          hasOpenAI: !!getOpenAIClient(),
+          provider: getProviderInfo(),
+          embeddingCache: getEmbeddingCacheStats(),
           timestamp: new Date().toISOString()
         });
       }
     },
 
+    // Embedding/chat provider configuration
+    "/api/provider": {
+      async GET() {
+        return Response.json(getProviderInfo());
+      },
+      // Changes the provider for every user, so it is an admin route
+      async PUT(req) {
+        if (!isAdmin(req)) {
+          return Response.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        try {
+          const update = await req.json();
+          if (!update || typeof update !== 'object') {
+            return Response.json({ error: 'Invalid provider config' }, { status: 400 });
+          }
+
+          updateProviderConfig(update);
+          return Response.json(getProviderInfo());
+        } catch (error) {
+          console.error('Provider update error:', error);
+          return Response.json({ error: 'Failed to update provider' }, { status: 500 });
+        }
+      },
+    },
+
+    // Project persistence (SQLite)
+    "/api/projects": {
+      async GET() {
+        return Response.json(listProjects());
+      },
+      async POST(req) {
+        try {
+          const project = await req.json();
+          if (!isValidProject(project)) {
+            return Response.json({ error: 'Invalid project' }, { status: 400 });
+          }
+
+          const result = saveProject(project);
+          return Response.json(result, { status: result.saved ? 201 : 409 });
+        } catch (error) {
+          console.error('Project create error:', error);
+          return Response.json({ error: 'Failed to create project' }, { status: 500 });
+        }
+      },
+    },
+
+    "/api/projects/:id": {
+      async GET(req) {
+        const project = getProject(req.params.id);
+        if (!project) {
+          return Response.json({ error: 'Project not found' }, { status: 404 });
+        }
+        return Response.json(project);
+      },
+      async PUT(req) {
+        try {
+          const project = await req.json();
+          if (!isValidProject(project) || project.id !== req.params.id) {
+            return Response.json({ error: 'Invalid project' }, { status: 400 });
+          }
+
+          const result = saveProject(project);
+          return Response.json(result, { status: result.saved ? 200 : 409 });
+        } catch (error) {
+          console.error('Project update error:', error);
+          return Response.json({ error: 'Failed to update project' }, { status: 500 });
+        }
+      },
+      async DELETE(req) {
+        if (!deleteProject(req.params.id)) {
+          return Response.json({ error: 'Project not found' }, { status: 404 });
+        }
+        return Response.json({ deleted: true });
+      },
+    },
+
     // Get embedding for text
     "/api/embedding": {
       async POST(req) {
@@ -107,35 +264,38 @@ const server = serve({
 
           const normalizedText = text.toLowerCase().trim();
 
-          // Check cache first
-          if (embeddingCache.has(normalizedText)) {
+          // If no provider is configured, use fallback mock embeddings
+          const openai = getOpenAIClient();
+          if (!openai) {
+            const mockEmbedding = generateMockEmbedding(normalizedText);
             return Response.json({
-              embedding: embeddingCache.get(normalizedText),
+              embedding: mockEmbedding,
               text: normalizedText,
-              cached: true
+              mock: true
             });
           }
 
-          // If no API key, use fallback mock embeddings
-          if (!openai) {
-            const mockEmbedding = generateMockEmbedding(normalizedText);
-            embeddingCache.set(normalizedText, mockEmbedding);
+          // Check cache first
+          const model = embeddingCacheModel();
+          const cached = getCachedEmbedding(model, normalizedText);
+          if (cached) {
             return Response.json({
-              embedding: mockEmbedding,
+              embedding: cached,
               text: normalizedText,
-              mock: true
+              cached: true
             });
           }
 
-          // Get embedding from OpenAI
+          // Get embedding from the configured provider
           const response = await openai.embeddings.create({
-            model: 'text-embedding-3-small',
+            ...getEmbeddingParams(),
             input: normalizedText,
           });
 
           const embedding = response.data[0]?.embedding;
           if (embedding) {
-            embeddingCache.set(normalizedText, embedding);
+            recordEmbeddingDimensions(embedding.length);
+            cacheEmbeddings(model, [{ text: normalizedText, embedding }]);
           }
 
           return Response.json({ embedding, text: normalizedText });
@@ -168,13 +328,16 @@ const server = serve({
           const results: any[] = [];
           const uncachedTexts: string[] = [];
           const uncachedIndices: number[] = [];
+          const openai = getOpenAIClient();
+          const model = embeddingCacheModel();
 
           // Check cache for each text
           texts.forEach((text, index) => {
             const normalized = text.toLowerCase().trim();
-            if (embeddingCache.has(normalized)) {
+            const cached = openai ? getCachedEmbedding(model, normalized) : null;
+            if (cached) {
               results[index] = {
-                embedding: embeddingCache.get(normalized),
+                embedding: cached,
                 text: normalized,
                 cached: true
               };
@@ -190,7 +353,6 @@ const server = serve({
               // Mock embeddings
               uncachedTexts.forEach((text, i) => {
                 const mockEmbedding = generateMockEmbedding(text);
-                embeddingCache.set(text, mockEmbedding);
                 results[uncachedIndices[i]!] = {
                   embedding: mockEmbedding,
                   text,
@@ -199,20 +361,23 @@ const server = serve({
               });
             } else {
               const response = await openai.embeddings.create({
-                model: 'text-embedding-3-small',
+                ...getEmbeddingParams(),
                 input: uncachedTexts,
               });
 
+              const fresh: Array<{ text: string; embedding: number[] }> = [];
               response.data.forEach((item, i) => {
                 const text = uncachedTexts[i];
                 if (text && item.embedding) {
-                  embeddingCache.set(text, item.embedding);
+                  recordEmbeddingDimensions(item.embedding.length);
+                  fresh.push({ text, embedding: item.embedding });
                   results[uncachedIndices[i]!] = {
                     embedding: item.embedding,
                     text
                   };
                 }
               });
+              cacheEmbeddings(model, fresh);
             }
           }
 
@@ -224,33 +389,166 @@ const server = serve({
       }
     },
 
+    // LLM-named topic for a cluster of labels. Without an LLM the client falls back
+    // to the cluster's most central label, which needs the vectors it already has.
+    "/api/topic-name": {
+      async POST(req) {
+        try {
+          const { labels } = await req.json();
+          if (!Array.isArray(labels) || labels.length === 0) {
+            return Response.json({ error: 'labels must be a non-empty array' }, { status: 400 });
+          }
+
+          const openai = getOpenAIClient();
+          if (!openai) {
+            return Response.json({ topic: null, fallback: true });
+          }
+
+          const completion = await openai.chat.completions.create({
+            model: getProviderConfig().chatModel,
+            messages: [
+              {
+                role: 'system',
+                content: `You name clusters of brainstorm ideas. Given the ideas in one cluster, reply with a concise topic title (1-4 words, Title Case) that covers all of them. Return only a JSON object like {"topic": "..."}.`
+              },
+              {
+                role: 'user',
+                content: `Ideas: ${labels.slice(0, TOPIC_NAME_MAX_LABELS).map((l: unknown) => String(l)).join(', ')}`
+              }
+            ],
+            response_format: { type: 'json_object' },
+            max_tokens: 30,
+          });
+
+          const content = completion.choices[0]?.message.content;
+          const parsed = content ? JSON.parse(content) : {};
+          const topic = typeof parsed.topic === 'string'
+            ? parsed.topic.trim().replace(/^["']|["']$/g, '').slice(0, 60)
+            : '';
+
+          return topic
+            ? Response.json({ topic })
+            : Response.json({ topic: null, fallback: true });
+        } catch (error) {
+          console.error('Topic naming error:', error);
+          return Response.json({ topic: null, fallback: true });
+        }
+      }
+    },
+
+    // Children for one node, streamed as Server-Sent Events:
+    // "suggestion" events with {label}, then "done" (or "error")
+    "/api/expand": {
+      async POST(req) {
+        const request = parseExpandRequest(await req.json().catch(() => null));
+        if (!request) {
+          return Response.json({ error: 'path must be a non-empty array of labels' }, { status: 400 });
+        }
+
+        const openai = getOpenAIClient();
+        const encoder = new TextEncoder();
+        const stream = new ReadableStream({
+          async start(controller) {
+            const send = (event: string, data: unknown) =>
+              controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+
+            try {
+              for await (const label of streamExpansions(openai, getProviderConfig().chatModel, request)) {
+                send('suggestion', { label });
+              }
+              send('done', { fallback: !openai });
+            } catch (error) {
+              console.error('Expand error:', error);
+              send('error', { error: 'Failed to expand node' });
+            } finally {
+              controller.close();
+            }
+          },
+        });
+
+        return new Response(stream, {
+          headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+          },
+        });
+      }
+    },
+
+    // Written summary of a subtree, from its outline of labels
+    "/api/summarize": {
+      async POST(req) {
+        const body = await req.json().catch(() => null);
+        const outline = parseOutline(body?.outline);
+        if (!outline) {
+          return Response.json({ error: 'outline must be a node with a label and children' }, { status: 400 });
+        }
+
+        const openai = getOpenAIClient();
+        if (!openai) {
+          return Response.json({ summary: templateSummary(outline), fallback: true });
+        }
+
+        try {
+          const summary = await summarizeOutline(openai, getProviderConfig().chatModel, outline);
+          return Response.json(summary ? { summary } : { summary: templateSummary(outline), fallback: true });
+        } catch (error) {
+          console.error('Summarize error:', error);
+          return Response.json({ summary: templateSummary(outline), fallback: true });
+        }
+      }
+    },
+
+    // Conversation about the whole graph; replies may carry proposed add/rename/move actions
+    "/api/chat": {
+      async POST(req) {
+        const request = parseChatRequest(await req.json().catch(() => null));
+        if (!request) {
+          return Response.json({ error: 'messages ending with a user message and a graph are required' }, { status: 400 });
+        }
+
+        const openai = getOpenAIClient();
+        if (!openai) {
+          return Response.json(mockChatReply(request));
+        }
+
+        try {
+          return Response.json(await chatWithGraph(openai, getProviderConfig().chatModel, request));
+        } catch (error) {
+          console.error('Chat error:', error);
+          return Response.json({ ...mockChatReply(request), fallback: true });
+        }
+      }
+    },
+
     // LLM-powered node suggestions
     "/api/suggest": {
       async POST(req) {
-        try {
-          const body = await req.json();
-          const { context, focusedNode, existingNodes } = body;
+        const body = await req.json().catch(() => ({}));
+        const { context, focusedNode } = body;
+        const existingLabels: string[] = Array.isArray(body.existingNodes)
+          ? body.existingNodes.map((n: any) => String(n.label))
+          : [];
 
+        try {
+          const openai = getOpenAIClient();
           if (!openai) {
             // Return mock suggestions
-            const mockSuggestions = generateMockSuggestions(focusedNode);
+            const mockSuggestions = generateMockSuggestions(focusedNode, context, existingLabels);
             return Response.json({ suggestions: mockSuggestions });
           }
 
-          const existingLabels = existingNodes.map((n: any) => n.label).join(', ');
-
           const completion = await openai.chat.completions.create({
-            model: 'gpt-4o-mini',
+            model: getProviderConfig().chatModel,
             messages: [
               {
                 role: 'system',
-                content: `You are a brainstorming assistant. Given a context and a focused topic, suggest 3 short, distinct sub-topics or related ideas. Each suggestion should be 1-4 words. Return only a JSON array of strings.`
+                content: `You are a brainstorming assistant. Given where an idea sits in a mind map, suggest 3 short, distinct sub-topics or related ideas for it that fit its branch. Each suggestion should be 1-4 words. Return only a JSON object like {"suggestions": ["...", "...", "..."]}.`
               },
               {
                 role: 'user',
-                content: `Context: ${context || 'General brainstorming'}
+                content: `${formatSuggestionContext(focusedNode, context)}
 Focused on: "${focusedNode}"
-Existing ideas: ${existingLabels}
 
 Suggest 3 new related ideas that aren't already listed.`
               }
@@ -261,13 +559,14 @@ Suggest 3 new related ideas that aren't already listed.`
 
           const content = completion.choices[0]?.message.content;
           const parsed = content ? JSON.parse(content) : {};
-          const suggestions = parsed.suggestions || parsed.ideas || [];
+          const taken = takenLabels(context, existingLabels);
+          const suggestions = (parsed.suggestions || parsed.ideas || [])
+            .filter((s: unknown): s is string => typeof s === 'string' && !taken.has(s.toLowerCase()));
 
           return Response.json({ suggestions: suggestions.slice(0, 3) });
         } catch (error) {
           console.error('Suggestion error:', error);
-          const body = await req.json();
-          const mockSuggestions = generateMockSuggestions(body.focusedNode);
+          const mockSuggestions = generateMockSuggestions(focusedNode, context, existingLabels);
           return Response.json({ suggestions: mockSuggestions, fallback: true });
         }
       }
@@ -281,4 +580,9 @@ Suggest 3 new related ideas that aren't already listed.`
 });
 
 console.log(`🚀 Brainstormy server running at ${server.url}`);
-console.log(`OpenAI API: ${process.env.OPENAI_API_KEY ? 'configured' : 'not configured (using mock embeddings)'}`);
+const provider = getProviderInfo();
+console.log(
+  provider.provider === 'mock'
+    ? 'OpenAI API: not configured (using mock embeddings)'
+    : `OpenAI API: ${provider.baseUrl || 'api.openai.com'} (embeddings: ${provider.embeddingModel}, chat: ${provider.chatModel})`
+);
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { mockChatReply, parseChatRequest, validateChatActions } from './chat';
+import type { ExportData } from '../types';
+
+const node = (id: string, label: string, parentId?: string) => ({ id, label, parentId, children: [] });
+
+const graph: ExportData = {
+  nodes: [
+    node('root', 'Idle Game'),
+    node('a', 'Mining', 'root'),
+    node('b', 'Copper', 'a'),
+    node('c', 'Iron', 'a'),
+    node('d', 'Audio', 'root'),
+  ],
+  edges: [],
+  related: [],
+  metadata: { exportedAt: '', nodeCount: 5, edgeCount: 4, relatedCount: 0 },
+};
+
+const ask = (content: string) => mockChatReply({ messages: [{ role: 'user', content }], graph });
+
+describe('mockChatReply', () => {
+  it('should turn edit commands into actions on existing nodes', () => {
+    expect(ask('add Gold to mining').actions).toEqual([{ type: 'add', label: 'Gold', parentId: 'a' }]);
+    expect(ask('Rename Iron to Iron Ore').actions).toEqual([{ type: 'rename', nodeId: 'c', label: 'Iron Ore' }]);
+    expect(ask('move Copper under Audio.').actions).toEqual([{ type: 'move', nodeId: 'b', parentId: 'd' }]);
+  });
+
+  it('should describe a mentioned node or the whole graph without actions', () => {
+    expect(ask('What is under Mining?')).toEqual({
+      reply: '"Mining" has 2 ideas under it, starting with: Copper, Iron.',
+      actions: [],
+    });
+    expect(ask('add Gold to Nowhere').reply).toMatch(/^This brainstorm has 4 ideas in 2 topics: Mining \(3\), Audio \(1\)\./);
+  });
+});
+
+describe('validateChatActions', () => {
+  it('should drop malformed actions and unknown ids', () => {
+    expect(
+      validateChatActions(
+        [
+          { type: 'add', label: ' Gold ', parentId: 'a' },
+          { type: 'add', label: 'Tin', parentId: 'zzz' },
+          { type: 'rename', nodeId: 'c', label: '' },
+          { type: 'move', nodeId: 'root', parentId: 'a' },
+          { type: 'delete', nodeId: 'b' },
+          'move b',
+        ],
+        graph
+      )
+    ).toEqual([{ type: 'add', label: 'Gold', parentId: 'a' }]);
+  });
+});
+
+describe('parseChatRequest', () => {
+  it('should require a graph and a conversation ending with the user', () => {
+    expect(parseChatRequest({ messages: [], graph })).toBeNull();
+    expect(parseChatRequest({ messages: [{ role: 'assistant', content: 'Hi' }], graph })).toBeNull();
+    expect(parseChatRequest({ messages: [{ role: 'user', content: 'Hi' }] })).toBeNull();
+    expect(parseChatRequest({ messages: [{ role: 'user', content: 'Hi' }], graph })?.messages).toHaveLength(1);
+  });
+});
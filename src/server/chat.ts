@@ -0,0 +1,156 @@
+import type OpenAI from 'openai';
+import type { ChatAction, ChatMessage, ExportData } from '../types';
+
+// Most recent messages sent to the LLM
+const CHAT_HISTORY_MESSAGES = 12;
+
+// Graphs above this size lose their children lists, then their last nodes
+const CHAT_GRAPH_MAX_CHARS = 24_000;
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  graph: ExportData;
+}
+
+export interface ChatReply {
+  reply: string;
+  actions: ChatAction[];
+}
+
+// Validate a POST /api/chat body, null when it isn't usable
+export function parseChatRequest(body: unknown): ChatRequest | null {
+  if (!body || typeof body !== 'object') return null;
+  const { messages, graph } = body as Record<string, unknown>;
+  if (!Array.isArray(messages) || !graph || !Array.isArray((graph as ExportData).nodes)) return null;
+
+  const valid = messages.filter(
+    (m): m is ChatMessage =>
+      !!m && (m.role === 'user' || m.role === 'assistant') && typeof m.content === 'string'
+  );
+  if (valid.length === 0 || valid[valid.length - 1]!.role !== 'user') return null;
+
+  return { messages: valid, graph: graph as ExportData };
+}
+
+// Keep only well-formed actions that point at nodes in the graph
+export function validateChatActions(raw: unknown, graph: ExportData): ChatAction[] {
+  if (!Array.isArray(raw)) return [];
+  const ids = new Set(graph.nodes.map((n) => n.id));
+  const isLabel = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+  return raw.flatMap((action): ChatAction[] => {
+    if (!action || typeof action !== 'object') return [];
+    const { type, label, nodeId, parentId } = action as Record<string, unknown>;
+
+    if (type === 'add' && isLabel(label) && ids.has(parentId as string)) {
+      return [{ type, label: label.trim(), parentId: parentId as string }];
+    }
+    if (type === 'rename' && isLabel(label) && ids.has(nodeId as string)) {
+      return [{ type, nodeId: nodeId as string, label: label.trim() }];
+    }
+    if (type === 'move' && nodeId !== 'root' && ids.has(nodeId as string) && ids.has(parentId as string)) {
+      return [{ type, nodeId: nodeId as string, parentId: parentId as string }];
+    }
+    return [];
+  });
+}
+
+function compactGraph(graph: ExportData): string {
+  const full = JSON.stringify({ nodes: graph.nodes, related: graph.related });
+  if (full.length <= CHAT_GRAPH_MAX_CHARS) return full;
+
+  // parentId already describes the tree, so the children lists can go first
+  const nodes = graph.nodes.map(({ children: _children, ...n }) => n);
+  while (nodes.length > 1 && JSON.stringify(nodes).length > CHAT_GRAPH_MAX_CHARS) nodes.pop();
+  return JSON.stringify({ nodes, truncated: true });
+}
+
+export async function chatWithGraph(openai: OpenAI, model: string, request: ChatRequest): Promise<ChatReply> {
+  const completion = await openai.chat.completions.create({
+    model,
+    messages: [
+      {
+        role: 'system',
+        content: `You help the user think about their brainstorm, a mind map given as JSON: nodes have an id, label, topic and parentId ("root" is the center), and "related" lists extra links between nodes. Answer concisely, in plain text or a short Markdown list.
+When the user asks for changes, or a change would clearly help, propose graph edits as actions. Reply with only a JSON object {"reply": string, "actions": [...]}, where each action is one of:
+{"type": "add", "label": string, "parentId": existing id}
+{"type": "rename", "nodeId": existing id, "label": string}
+{"type": "move", "nodeId": existing id, "parentId": existing id}
+Use only ids from the graph, and [] when no edits are needed.`
+      },
+      { role: 'system', content: `Graph: ${compactGraph(request.graph)}` },
+      ...request.messages.slice(-CHAT_HISTORY_MESSAGES).map((m) => ({ role: m.role, content: m.content })),
+    ],
+    response_format: { type: 'json_object' },
+    max_tokens: 800,
+  });
+
+  const content = completion.choices[0]?.message.content;
+  const parsed = content ? JSON.parse(content) : {};
+  return {
+    reply: typeof parsed.reply === 'string' ? parsed.reply : '',
+    actions: validateChatActions(parsed.actions, request.graph),
+  };
+}
+
+/**
+ * Deterministic answers for when no LLM is configured: understands "add X to Y",
+ * "rename X to Y" and "move X to Y", and otherwise describes the graph or the
+ * topic the question names.
+ */
+export function mockChatReply({ messages, graph }: ChatRequest): ChatReply {
+  const question = messages[messages.length - 1]!.content.trim();
+  const byLabel = (label: string) => graph.nodes.find((n) => n.label.toLowerCase() === label.trim().toLowerCase());
+  const countUnder = (id: string): number =>
+    graph.nodes.filter((n) => n.parentId === id).reduce((sum, n) => sum + 1 + countUnder(n.id), 0);
+
+  const add = question.match(/^add (.+?) (?:to|under) (.+?)\.?$/i);
+  const addParent = add && byLabel(add[2]!);
+  if (add && addParent) {
+    return {
+      reply: `Add "${add[1]}" under "${addParent.label}"?`,
+      actions: [{ type: 'add', label: add[1]!, parentId: addParent.id }],
+    };
+  }
+
+  const rename = question.match(/^rename (.+?) to (.+?)\.?$/i);
+  const renamed = rename && byLabel(rename[1]!);
+  if (rename && renamed) {
+    return {
+      reply: `Rename "${renamed.label}" to "${rename[2]}"?`,
+      actions: [{ type: 'rename', nodeId: renamed.id, label: rename[2]! }],
+    };
+  }
+
+  const move = question.match(/^move (.+?) (?:to|under) (.+?)\.?$/i);
+  const moved = move && byLabel(move[1]!);
+  const moveParent = move && byLabel(move[2]!);
+  if (moved && moveParent && moved.id !== 'root') {
+    return {
+      reply: `Move "${moved.label}" under "${moveParent.label}"?`,
+      actions: [{ type: 'move', nodeId: moved.id, parentId: moveParent.id }],
+    };
+  }
+
+  // A question about one node: the longest label it mentions
+  const mentioned = graph.nodes
+    .filter((n) => n.id !== 'root' && question.toLowerCase().includes(n.label.toLowerCase()))
+    .sort((a, b) => b.label.length - a.label.length)[0];
+  if (mentioned) {
+    const children = graph.nodes.filter((n) => n.parentId === mentioned.id).map((n) => n.label);
+    return {
+      reply: children.length > 0
+        ? `"${mentioned.label}" has ${countUnder(mentioned.id)} ideas under it, starting with: ${children.join(', ')}.`
+        : `"${mentioned.label}" has nothing under it yet.`,
+      actions: [],
+    };
+  }
+
+  const topics = graph.nodes.filter((n) => n.parentId === 'root');
+  return {
+    reply: `This brainstorm has ${graph.nodes.length - 1} ideas in ${topics.length} topics${
+      topics.length > 0 ? `: ${topics.map((t) => `${t.label} (${countUnder(t.id) + 1})`).join(', ')}` : ''
+    }. No LLM is configured, so I can only summarize, or "add X to Y", "rename X to Y" and "move X to Y".`,
+    actions: [],
+  };
+}
@@ -0,0 +1,7 @@
+import { Database } from 'bun:sqlite';
+
+// Path of the SQLite file holding projects and the embedding cache (shared by every client on the LAN)
+const DB_PATH = process.env.BRAINSTORMY_DB_PATH || 'brainstormy.sqlite';
+
+export const db = new Database(DB_PATH, { create: true });
+db.run('PRAGMA journal_mode = WAL');
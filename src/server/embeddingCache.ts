@@ -0,0 +1,145 @@
+import { db } from './db';
+
+// Most entries kept before the least recently used ones are evicted
+const MAX_ENTRIES = Number(process.env.EMBEDDING_CACHE_MAX_ENTRIES) || 50_000;
+
+// Entries serialized per chunk of the export stream
+const EXPORT_CHUNK_ENTRIES = 500;
+
+interface CacheRow {
+  model: string;
+  text: string;
+  vector: Uint8Array;
+  last_used: number;
+}
+
+db.run(`
+  CREATE TABLE IF NOT EXISTS embedding_cache (
+    model TEXT NOT NULL,
+    text TEXT NOT NULL,
+    vector BLOB NOT NULL,
+    last_used INTEGER NOT NULL,
+    PRIMARY KEY (model, text)
+  )
+`);
+db.run('CREATE INDEX IF NOT EXISTS embedding_cache_last_used ON embedding_cache (last_used)');
+
+const selectOne = db.query<Pick<CacheRow, 'vector'>, { $model: string; $text: string }>(
+  'SELECT vector FROM embedding_cache WHERE model = $model AND text = $text'
+);
+const touch = db.query(
+  'UPDATE embedding_cache SET last_used = $lastUsed WHERE model = $model AND text = $text'
+);
+const upsert = db.query(`
+  INSERT INTO embedding_cache (model, text, vector, last_used)
+  VALUES ($model, $text, $vector, $lastUsed)
+  ON CONFLICT(model, text) DO UPDATE SET vector = excluded.vector, last_used = excluded.last_used
+`);
+const countAll = db.query<{ count: number }, []>('SELECT COUNT(*) AS count FROM embedding_cache');
+const evictOldest = db.query(`
+  DELETE FROM embedding_cache WHERE rowid IN (
+    SELECT rowid FROM embedding_cache ORDER BY last_used ASC LIMIT $count
+  )
+`);
+const deleteAll = db.query('DELETE FROM embedding_cache');
+
+// Hit/miss counters since the server started
+let hits = 0;
+let misses = 0;
+
+// Vectors are stored as raw Float32 bytes
+function toBlob(vector: number[]): Uint8Array {
+  return new Uint8Array(new Float32Array(vector).buffer);
+}
+
+function fromBlob(blob: Uint8Array): number[] {
+  const copy = blob.slice(); // Aligned copy for the Float32Array view
+  return Array.from(new Float32Array(copy.buffer, 0, copy.byteLength / 4));
+}
+
+/**
+ * Look up a cached embedding and mark it as recently used
+ */
+export function getCachedEmbedding(model: string, text: string): number[] | null {
+  const row = selectOne.get({ $model: model, $text: text });
+  if (!row) {
+    misses++;
+    return null;
+  }
+
+  hits++;
+  touch.run({ $model: model, $text: text, $lastUsed: Date.now() });
+  return fromBlob(row.vector);
+}
+
+/**
+ * Store embeddings, then evict the least recently used entries above MAX_ENTRIES
+ */
+export const cacheEmbeddings = db.transaction(
+  (model: string, entries: Array<{ text: string; embedding: number[] }>) => {
+    const now = Date.now();
+    for (const { text, embedding } of entries) {
+      upsert.run({ $model: model, $text: text, $vector: toBlob(embedding), $lastUsed: now });
+    }
+
+    const overflow = countAll.get()!.count - MAX_ENTRIES;
+    if (overflow > 0) {
+      evictOldest.run({ $count: overflow });
+    }
+  }
+);
+
+export function getEmbeddingCacheStats() {
+  return { entries: countAll.get()!.count, maxEntries: MAX_ENTRIES, hits, misses };
+}
+
+export function clearEmbeddingCache(): number {
+  const { entries } = getEmbeddingCacheStats();
+  deleteAll.run();
+  hits = 0;
+  misses = 0;
+  return entries;
+}
+
+/**
+ * Stream the whole cache as JSON ({ exportedAt, entries }), most recently used first.
+ * Rows are read from a cursor as the client consumes the stream, so memory use doesn't grow with the cache.
+ */
+export function exportEmbeddingCache(): ReadableStream<Uint8Array> {
+  // Own statement per export, so concurrent exports don't share a cursor
+  const statement = db.prepare<CacheRow, []>('SELECT * FROM embedding_cache ORDER BY last_used DESC');
+  const rows = statement.iterate();
+  const encoder = new TextEncoder();
+  let separator = '';
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(`{"exportedAt":${JSON.stringify(new Date().toISOString())},"entries":[`));
+    },
+    pull(controller) {
+      let chunk = '';
+      for (let i = 0; i < EXPORT_CHUNK_ENTRIES; i++) {
+        const next = rows.next();
+        if (next.done) {
+          controller.enqueue(encoder.encode(`${chunk}]}`));
+          controller.close();
+          statement.finalize();
+          return;
+        }
+
+        const row = next.value;
+        chunk += separator + JSON.stringify({
+          model: row.model,
+          text: row.text,
+          embedding: fromBlob(row.vector),
+          lastUsed: row.last_used,
+        });
+        separator = ',';
+      }
+      controller.enqueue(encoder.encode(chunk));
+    },
+    cancel() {
+      statement.finalize();
+    },
+  });
+}
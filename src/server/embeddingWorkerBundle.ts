@@ -0,0 +1,31 @@
+import path from 'path';
+
+// URL the page loads the local embedding worker from
+export const EMBEDDING_WORKER_PATH = '/embedding-worker.js';
+
+const WORKER_ENTRYPOINT = path.join(import.meta.dir, '../utils/embeddingWorker.ts');
+
+let bundle: Promise<string> | null = null;
+
+/**
+ * Bundle the embedding worker (with transformers.js) on first request.
+ * Bun's HTML bundler doesn't follow `new Worker(...)`, so the worker is built on its own.
+ */
+export function getEmbeddingWorkerBundle(): Promise<string> {
+  if (!bundle) {
+    bundle = Bun.build({
+      entrypoints: [WORKER_ENTRYPOINT],
+      target: 'browser',
+      format: 'esm',
+      minify: process.env.NODE_ENV === 'production',
+    }).then(async (result) => {
+      const output = result.outputs[0];
+      if (!result.success || !output) {
+        bundle = null;
+        throw new AggregateError(result.logs, 'Failed to bundle embedding worker');
+      }
+      return output.text();
+    });
+  }
+  return bundle;
+}
@@ -0,0 +1,143 @@
+import type OpenAI from 'openai';
+import type { ExpandRequest, ExpandStyle } from '../types';
+
+export const EXPAND_MAX_COUNT = 10;
+
+const STYLE_PROMPTS: Record<ExpandStyle, string> = {
+  subtopics: 'sub-topics that break it down further',
+  questions: 'open questions worth answering about it, each ending with a question mark',
+  risks: 'risks, pitfalls or things that could go wrong with it',
+  examples: 'concrete, specific examples of it',
+};
+
+// Deterministic stand-ins used when no LLM is configured
+const MOCK_TEMPLATES: Record<ExpandStyle, string[]> = {
+  subtopics: ['Basics', 'Tools', 'Techniques', 'History', 'Costs', 'People', 'Metrics', 'Trends', 'Alternatives', 'Future'],
+  questions: [
+    'Why does {} matter?',
+    'Who needs {}?',
+    'What does {} cost?',
+    'How do we measure {}?',
+    'What blocks {}?',
+    'When is {} done?',
+    'What came before {}?',
+    'Who decides on {}?',
+    'What if {} fails?',
+    'How does {} scale?',
+  ],
+  risks: ['Cost overrun', 'Scope creep', 'Missing skills', 'Low adoption', 'Delays', 'Legal issues', 'Burnout', 'Lock-in', 'Security gaps', 'Competition'],
+  examples: ['Simple case', 'Edge case', 'Real-world case', 'Failure case', 'Classic case', 'Small-scale case', 'Large-scale case', 'Historic case', 'Everyday case', 'Extreme case'],
+};
+
+const EXPAND_STYLES = Object.keys(STYLE_PROMPTS) as ExpandStyle[];
+
+const toLabels = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+
+// Validate a POST /api/expand body, null when it isn't usable
+export function parseExpandRequest(body: unknown): ExpandRequest | null {
+  if (!body || typeof body !== 'object') return null;
+  const { path, siblings, children, count, style } = body as Record<string, unknown>;
+
+  const labels = toLabels(path);
+  if (labels.length === 0) return null;
+
+  return {
+    path: labels,
+    siblings: toLabels(siblings),
+    children: toLabels(children),
+    count: Math.min(Math.max(Math.round(Number(count) || 5), 1), EXPAND_MAX_COUNT),
+    style: EXPAND_STYLES.includes(style as ExpandStyle) ? (style as ExpandStyle) : 'subtopics',
+  };
+}
+
+// Strip list markers and quotes from a line of LLM output; '' for lines to skip
+export function cleanSuggestion(line: string): string {
+  return line
+    .trim()
+    .replace(/^(?:[-*•]|\d+[.)])\s*/, '')
+    .replace(/^["'`]+|["'`]+$/g, '')
+    .trim()
+    .slice(0, 80);
+}
+
+async function* streamLLMLines(openai: OpenAI, model: string, request: ExpandRequest): AsyncGenerator<string> {
+  const node = request.path[request.path.length - 1];
+  const stream = await openai.chat.completions.create({
+    model,
+    messages: [
+      {
+        role: 'system',
+        content: `You are a brainstorming assistant expanding one idea in a mind map. Reply with exactly the requested number of ${STYLE_PROMPTS[request.style]}, one per line, each 1-8 words, with no numbering, bullets or extra text.`
+      },
+      {
+        role: 'user',
+        content: `Path from the root: ${request.path.join(' > ')}
+Expand: "${node}"
+Sibling ideas: ${request.siblings.join(', ') || 'none'}
+Existing children: ${request.children.join(', ') || 'none'}
+
+Give ${request.count} new ${request.style} that aren't already listed.`
+      }
+    ],
+    stream: true,
+    max_tokens: 30 * request.count,
+  });
+
+  let buffer = '';
+  for await (const chunk of stream) {
+    buffer += chunk.choices[0]?.delta?.content ?? '';
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      yield buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 1);
+    }
+  }
+  if (buffer.trim()) yield buffer;
+}
+
+async function* mockLines(request: ExpandRequest): AsyncGenerator<string> {
+  const node = request.path[request.path.length - 1]!;
+  for (const template of MOCK_TEMPLATES[request.style]) {
+    // Paced like a real stream so the client's incremental rendering gets exercised
+    await Bun.sleep(120);
+    yield template.includes('{}') ? template.replace('{}', node) : `${node}: ${template}`;
+  }
+}
+
+/**
+ * Stream up to `count` cleaned, de-duplicated suggestions, from the LLM when one is
+ * configured. An LLM failure before the first suggestion falls back to the mock.
+ */
+export async function* streamExpansions(
+  openai: OpenAI | null,
+  model: string,
+  request: ExpandRequest
+): AsyncGenerator<string> {
+  const seen = new Set(
+    [request.path[request.path.length - 1]!, ...request.siblings, ...request.children].map((l) => l.toLowerCase())
+  );
+  let sent = 0;
+
+  const take = async function* (lines: AsyncGenerator<string>) {
+    for await (const line of lines) {
+      const label = cleanSuggestion(line);
+      if (!label || seen.has(label.toLowerCase())) continue;
+      seen.add(label.toLowerCase());
+      sent++;
+      yield label;
+      if (sent >= request.count) return;
+    }
+  };
+
+  if (openai) {
+    try {
+      yield* take(streamLLMLines(openai, model, request));
+      return;
+    } catch (error) {
+      if (sent > 0) throw error;
+      console.error('Expand LLM error, using mock suggestions:', error);
+    }
+  }
+  yield* take(mockLines(request));
+}
@@ -0,0 +1,80 @@
+import path from 'path';
+import { readdir } from 'fs/promises';
+
+// Folder holding ONNX model directories, laid out like the hub: <org>/<model>/...
+export const MODELS_DIR = path.resolve(process.env.BRAINSTORMY_MODELS_DIR || 'models');
+
+// Files transformers.js fetches for a feature-extraction model (quantized weights are the wasm default)
+export const REQUIRED_MODEL_FILES = [
+  'config.json',
+  'tokenizer.json',
+  'tokenizer_config.json',
+  'onnx/model_quantized.onnx',
+];
+
+// ONNX Runtime wasm binaries (and their loaders) shipped with transformers.js, served under /ort/
+// so local inference doesn't fetch them from a CDN
+export const ORT_WASM_DIR = path.dirname(Bun.resolveSync('@huggingface/transformers', import.meta.dir));
+const ORT_WASM_FILE_PATTERN = /^ort-wasm[\w.-]*\.(?:wasm|mjs)$/;
+
+/**
+ * Resolve a file name under /ort/ to an ONNX Runtime wasm file, or null for anything else
+ */
+export function resolveOrtWasmFile(name: string): string | null {
+  return ORT_WASM_FILE_PATTERN.test(name) ? path.join(ORT_WASM_DIR, name) : null;
+}
+
+/**
+ * Resolve a path under /models/ to a file inside MODELS_DIR, or null if it escapes the folder
+ */
+export function resolveModelFile(relativePath: string): string | null {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(relativePath);
+  } catch {
+    return null;
+  }
+
+  const resolved = path.resolve(MODELS_DIR, decoded);
+  return resolved.startsWith(MODELS_DIR + path.sep) ? resolved : null;
+}
+
+/**
+ * List the model directories in MODELS_DIR and which required files each one lacks
+ */
+export async function listBundledModels(): Promise<Array<{ id: string; missing: string[] }>> {
+  const models: Array<{ id: string; missing: string[] }> = [];
+
+  let orgs: string[];
+  try {
+    orgs = await readdir(MODELS_DIR);
+  } catch {
+    return models; // Folder doesn't exist yet
+  }
+
+  for (const org of orgs) {
+    let names: string[];
+    try {
+      names = await readdir(path.join(MODELS_DIR, org));
+    } catch {
+      continue; // Not a directory
+    }
+
+    for (const name of names) {
+      const id = `${org}/${name}`;
+      const missing: string[] = [];
+      for (const file of REQUIRED_MODEL_FILES) {
+        if (!(await Bun.file(path.join(MODELS_DIR, id, file)).exists())) {
+          missing.push(file);
+        }
+      }
+
+      // Skip stray files and folders with nothing model-like in them
+      if (missing.length < REQUIRED_MODEL_FILES.length) {
+        models.push({ id, missing });
+      }
+    }
+  }
+
+  return models;
+}
@@ -0,0 +1,140 @@
+import type { Project } from '../types';
+import { db } from './db';
+
+interface ProjectRow {
+  id: string;
+  name: string;
+  color: string;
+  created_at: number;
+  modified_at: number;
+  content_hash: string;
+  data: string | null;
+  deleted_at: number | null;
+}
+
+db.run(`
+  CREATE TABLE IF NOT EXISTS projects (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    color TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    modified_at INTEGER NOT NULL,
+    content_hash TEXT NOT NULL DEFAULT '',
+    data TEXT,
+    deleted_at INTEGER
+  )
+`);
+
+const selectAll = db.query<ProjectRow, []>(
+  'SELECT * FROM projects ORDER BY modified_at DESC'
+);
+const selectOne = db.query<ProjectRow, [string]>(
+  'SELECT * FROM projects WHERE id = ?'
+);
+const upsert = db.query(`
+  INSERT INTO projects (id, name, color, created_at, modified_at, content_hash, data, deleted_at)
+  VALUES ($id, $name, $color, $createdAt, $modifiedAt, $contentHash, $data, NULL)
+  ON CONFLICT(id) DO UPDATE SET
+    name = excluded.name,
+    color = excluded.color,
+    modified_at = excluded.modified_at,
+    content_hash = excluded.content_hash,
+    data = excluded.data,
+    deleted_at = NULL
+`);
+const markDeleted = db.query(
+  'UPDATE projects SET data = NULL, deleted_at = $deletedAt, modified_at = $deletedAt WHERE id = $id'
+);
+
+function rowToProject(row: ProjectRow): Project {
+  return {
+    id: row.id,
+    name: row.name,
+    color: row.color,
+    createdAt: row.created_at,
+    modifiedAt: row.modified_at,
+    contentHash: row.content_hash,
+    data: JSON.parse(row.data || '{"nodes":[],"edges":[],"colorIndex":0}'),
+  };
+}
+
+/**
+ * List all live projects plus tombstones of deleted ones,
+ * so clients can drop projects that were deleted elsewhere
+ */
+export function listProjects(): { projects: Project[]; deleted: Array<{ id: string; deletedAt: number }> } {
+  const rows = selectAll.all();
+  return {
+    projects: rows.filter((r) => r.deleted_at === null).map(rowToProject),
+    deleted: rows
+      .filter((r) => r.deleted_at !== null)
+      .map((r) => ({ id: r.id, deletedAt: r.deleted_at! })),
+  };
+}
+
+/**
+ * Get a single project, or null if it does not exist or was deleted
+ */
+export function getProject(id: string): Project | null {
+  const row = selectOne.get(id);
+  if (!row || row.deleted_at !== null) return null;
+  return rowToProject(row);
+}
+
+/**
+ * Insert or update a project.
+ * Last write wins on modifiedAt: an older incoming copy is rejected and the stored one returned instead.
+ * A copy last modified before the project was deleted is rejected too (with the deletion time),
+ * so a stale client can't bring it back.
+ */
+export function saveProject(
+  project: Project
+): { saved: true; project: Project } | { saved: false; project: Project } | { saved: false; deletedAt: number } {
+  const existing = selectOne.get(project.id);
+  if (existing && existing.deleted_at !== null && project.modifiedAt <= existing.deleted_at) {
+    return { saved: false, deletedAt: existing.deleted_at };
+  }
+  if (existing && existing.deleted_at === null && existing.modified_at > project.modifiedAt) {
+    return { saved: false, project: rowToProject(existing) };
+  }
+
+  upsert.run({
+    $id: project.id,
+    $name: project.name,
+    $color: project.color,
+    $createdAt: project.createdAt,
+    $modifiedAt: project.modifiedAt,
+    $contentHash: project.contentHash || '',
+    $data: JSON.stringify(project.data),
+  });
+
+  return { saved: true, project };
+}
+
+/**
+ * Delete a project, keeping a tombstone so other clients can sync the deletion
+ */
+export function deleteProject(id: string): boolean {
+  const existing = selectOne.get(id);
+  if (!existing || existing.deleted_at !== null) return false;
+
+  markDeleted.run({ $id: id, $deletedAt: Date.now() });
+  return true;
+}
+
+/**
+ * Validate the shape of a project received from a client
+ */
+export function isValidProject(value: any): value is Project {
+  return (
+    !!value &&
+    typeof value.id === 'string' &&
+    typeof value.name === 'string' &&
+    typeof value.color === 'string' &&
+    typeof value.createdAt === 'number' &&
+    typeof value.modifiedAt === 'number' &&
+    !!value.data &&
+    Array.isArray(value.data.nodes) &&
+    Array.isArray(value.data.edges)
+  );
+}
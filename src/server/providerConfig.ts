@@ -0,0 +1,140 @@
+import OpenAI from 'openai';
+
+// Dimension of the mock embeddings used when no provider is configured
+export const MOCK_EMBEDDING_DIMENSIONS = 256;
+
+export interface ProviderConfig {
+  baseUrl: string | null; // null = api.openai.com
+  embeddingModel: string;
+  chatModel: string;
+  embeddingDimensions: number | null; // null = the model's native size
+}
+
+export interface ProviderInfo extends ProviderConfig {
+  provider: 'openai' | 'openai-compatible' | 'mock';
+  configuredDimensions: number | null;
+}
+
+// Native vector size of common embedding models, so it is known before the first embedding.
+// Ollama-style tags ("nomic-embed-text:latest") are ignored when looking models up.
+const KNOWN_EMBEDDING_DIMENSIONS: Record<string, number> = {
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+  'text-embedding-ada-002': 1536,
+  'nomic-embed-text': 768,
+  'mxbai-embed-large': 1024,
+  'all-minilm': 384,
+  'bge-m3': 1024,
+  'snowflake-arctic-embed': 1024,
+};
+
+function getKnownEmbeddingDimensions(model: string): number | null {
+  return KNOWN_EMBEDDING_DIMENSIONS[model.toLowerCase().split(':')[0]!] ?? null;
+}
+
+function parseDimensions(value: unknown): number | null {
+  const dims = Number(value);
+  return Number.isInteger(dims) && dims > 0 ? dims : null;
+}
+
+// The base URL OPENAI_API_KEY was issued for
+const ENV_BASE_URL = process.env.OPENAI_BASE_URL || null;
+
+let config: ProviderConfig = {
+  baseUrl: ENV_BASE_URL,
+  embeddingModel: process.env.EMBEDDING_MODEL || 'text-embedding-3-small',
+  chatModel: process.env.CHAT_MODEL || 'gpt-4o-mini',
+  embeddingDimensions: parseDimensions(process.env.EMBEDDING_DIMENSIONS),
+};
+
+// Dimension of the last embedding the provider returned, for models that are neither configured nor known
+let observedDimensions: number | null = null;
+
+/**
+ * Create a client when there is an API key, or a base URL (local servers like Ollama need no key).
+ * The env API key only goes to the env base URL (or api.openai.com), never to one set at runtime.
+ */
+function createClient(current: ProviderConfig): OpenAI | null {
+  const apiKey = current.baseUrl === ENV_BASE_URL || !current.baseUrl ? process.env.OPENAI_API_KEY : undefined;
+  if (!apiKey && !current.baseUrl) return null;
+
+  return new OpenAI({
+    apiKey: apiKey || 'not-needed',
+    baseURL: current.baseUrl || undefined,
+  });
+}
+
+let client = createClient(config);
+
+export function getOpenAIClient(): OpenAI | null {
+  return client;
+}
+
+export function getProviderConfig(): ProviderConfig {
+  return config;
+}
+
+/**
+ * Update the provider at runtime (from the settings panel, admins only).
+ * Env variables stay the defaults on the next restart.
+ */
+export function updateProviderConfig(update: Record<string, unknown>): ProviderConfig {
+  const next = { ...config };
+
+  if ('baseUrl' in update) {
+    next.baseUrl = typeof update.baseUrl === 'string' && update.baseUrl.trim() ? update.baseUrl.trim() : null;
+  }
+  if (typeof update.embeddingModel === 'string' && update.embeddingModel.trim()) {
+    next.embeddingModel = update.embeddingModel.trim();
+  }
+  if (typeof update.chatModel === 'string' && update.chatModel.trim()) {
+    next.chatModel = update.chatModel.trim();
+  }
+  if ('embeddingDimensions' in update) {
+    next.embeddingDimensions = parseDimensions(update.embeddingDimensions);
+  }
+
+  if (next.baseUrl !== config.baseUrl || next.embeddingModel !== config.embeddingModel) {
+    observedDimensions = null;
+  }
+  if (next.baseUrl !== config.baseUrl) {
+    client = createClient(next);
+  }
+
+  config = next;
+  return config;
+}
+
+export function recordEmbeddingDimensions(dims: number) {
+  observedDimensions = dims;
+}
+
+/**
+ * Describe the active provider.
+ * embeddingDimensions is the size vectors have: the configured size, else the model's known
+ * native size, else the last one seen (null until then). configuredDimensions is the requested size.
+ */
+export function getProviderInfo(): ProviderInfo {
+  const configuredDimensions = config.embeddingDimensions;
+
+  if (!client) {
+    return { ...config, provider: 'mock', embeddingDimensions: MOCK_EMBEDDING_DIMENSIONS, configuredDimensions };
+  }
+
+  return {
+    ...config,
+    provider: config.baseUrl ? 'openai-compatible' : 'openai',
+    embeddingDimensions: configuredDimensions ?? getKnownEmbeddingDimensions(config.embeddingModel) ?? observedDimensions,
+    configuredDimensions,
+  };
+}
+
+/**
+ * Extra embeddings.create params (only send `dimensions` when configured)
+ */
+export function getEmbeddingParams(): { model: string; dimensions?: number } {
+  return {
+    model: config.embeddingModel,
+    ...(config.embeddingDimensions && { dimensions: config.embeddingDimensions }),
+  };
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { generateMockSuggestions, formatSuggestionContext } from './suggest';
+
+const context = {
+  root: 'Idle Game',
+  path: ['Mining', 'Copper'],
+  topics: ['Mining', 'Audio'],
+  siblings: ['Iron'],
+  children: ['Ore Types'],
+};
+
+describe('generateMockSuggestions', () => {
+  it('should use the nearest ancestor with known ideas and skip existing labels', () => {
+    expect(generateMockSuggestions('Copper', context)).toEqual(['Mining Tools', 'Gem Deposits', 'Copper Basics']);
+  });
+
+  it('should be deterministic without context', () => {
+    expect(generateMockSuggestions('Harbor')).toEqual(generateMockSuggestions('Harbor'));
+    expect(generateMockSuggestions('Harbor')).toEqual(['Harbor Basics', 'Harbor Ideas', 'Harbor Variants']);
+  });
+
+  it('should mention the parent in generic ideas', () => {
+    expect(generateMockSuggestions('Docks', { ...context, path: ['Harbor', 'Docks'] })).toContain('Docks for Harbor');
+  });
+});
+
+describe('formatSuggestionContext', () => {
+  it('should describe the path, topics, siblings and children', () => {
+    expect(formatSuggestionContext('Copper', context)).toBe(
+      [
+        'Brainstorm: Idle Game',
+        'Path: Idle Game > Mining > Copper',
+        'Topics: Mining, Audio',
+        'Next to "Copper": Iron',
+        'Already under "Copper": Ore Types',
+      ].join('\n')
+    );
+  });
+});
@@ -0,0 +1,66 @@
+import type { SuggestionContext } from '../types';
+
+const SUGGESTION_MAP: Record<string, string[]> = {
+  'game': ['Multiplayer', 'Story Mode', 'Achievements'],
+  'graphics': ['Pixel Art', 'Low Poly', 'Shaders'],
+  'mechanics': ['Combat System', 'Skill Tree', 'Inventory'],
+  'audio': ['Background Music', 'Sound Effects', 'Voice Acting'],
+  'mining': ['Ore Types', 'Mining Tools', 'Gem Deposits'],
+  'crafting': ['Recipe System', 'Material Tiers', 'Workbenches'],
+  'market': ['Trading Post', 'Auction House', 'Price History'],
+};
+
+const isContext = (value: unknown): value is SuggestionContext =>
+  !!value && typeof value === 'object' && Array.isArray((value as SuggestionContext).path);
+
+// Lines describing where the focused node sits, for the prompt
+export function formatSuggestionContext(focusedNode: string, context: unknown): string {
+  if (typeof context === 'string') return context;
+  if (!isContext(context)) return 'General brainstorming';
+
+  const lines = [`Brainstorm: ${context.root}`];
+  if (context.path.length > 0) lines.push(`Path: ${[context.root, ...context.path].join(' > ')}`);
+  if (context.topics.length > 0) lines.push(`Topics: ${context.topics.join(', ')}`);
+  if (context.siblings.length > 0) lines.push(`Next to "${focusedNode}": ${context.siblings.join(', ')}`);
+  if (context.children.length > 0) lines.push(`Already under "${focusedNode}": ${context.children.join(', ')}`);
+  return lines.join('\n');
+}
+
+// Labels a suggestion must not repeat
+export function takenLabels(context: unknown, existingLabels: string[]): Set<string> {
+  const labels = isContext(context) ? [...context.siblings, ...context.children] : [];
+  return new Set([...labels, ...existingLabels].map((l) => l.toLowerCase()));
+}
+
+/**
+ * Deterministic suggestions for when no LLM is configured. Walks up the path to the
+ * nearest label with known ideas (so "Copper" under "Mining" gets mining ideas) and
+ * skips anything already in the graph.
+ */
+export function generateMockSuggestions(
+  focusedNode: string,
+  context?: unknown,
+  existingLabels: string[] = []
+): string[] {
+  const ancestors = isContext(context) ? context.path.slice(0, -1).reverse() : [];
+  const taken = takenLabels(context, existingLabels);
+
+  let ideas: string[] = [];
+  for (const label of [focusedNode || '', ...ancestors]) {
+    const key = Object.keys(SUGGESTION_MAP).find((k) => label.toLowerCase().includes(k));
+    if (key) {
+      ideas = SUGGESTION_MAP[key]!;
+      break;
+    }
+  }
+
+  const parent = ancestors[0];
+  const generic = [
+    `${focusedNode} Basics`,
+    parent ? `${focusedNode} for ${parent}` : `${focusedNode} Ideas`,
+    `${focusedNode} Variants`,
+    `${focusedNode} Challenges`,
+  ];
+
+  return [...ideas, ...generic].filter((idea) => !taken.has(idea.toLowerCase())).slice(0, 3);
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { parseOutline, templateSummary, SUMMARIZE_MAX_NODES } from './summarize';
+
+const leaf = (label: string) => ({ label, children: [] });
+
+const outline = {
+  label: 'Idle Game',
+  children: [
+    { label: 'Mining', children: [leaf('Copper'), { label: 'Iron', children: [leaf('Iron Ore')] }] },
+    { label: 'Audio', children: [leaf('Music')] },
+    leaf('Marketing'),
+  ],
+};
+
+describe('templateSummary', () => {
+  it('should describe each branch in prose and list the biggest as takeaways', () => {
+    expect(templateSummary(outline)).toBe(
+      [
+        '"Idle Game" brings together 7 ideas across 3 threads: Mining, Audio and Marketing.',
+        'Mining covers Copper and Iron, with 1 more idea below. Audio covers Music. It also touches on Marketing.',
+        '**Key takeaways**',
+        '- Mining (3 ideas)\n- Audio (1 idea)\n- Marketing',
+      ].join('\n\n')
+    );
+  });
+
+  it('should handle a node without children', () => {
+    expect(templateSummary(leaf('Copper'))).toBe('"Copper" has no ideas under it yet.');
+  });
+});
+
+describe('parseOutline', () => {
+  it('should drop malformed children and cap the size', () => {
+    expect(parseOutline({ label: 'A', children: [{ label: 'B' }, { name: 'C' }, 'D'] })).toEqual({
+      label: 'A',
+      children: [leaf('B')],
+    });
+    expect(parseOutline({ children: [] })).toBeNull();
+
+    const wide = { label: 'Root', children: Array.from({ length: SUMMARIZE_MAX_NODES + 5 }, (_, i) => leaf(`n${i}`)) };
+    expect(parseOutline(wide)!.children).toHaveLength(SUMMARIZE_MAX_NODES - 1);
+  });
+});
@@ -0,0 +1,98 @@
+import type OpenAI from 'openai';
+import type { OutlineNode } from '../types';
+
+// Outlines are cut to this many nodes (breadth-first) before summarizing
+export const SUMMARIZE_MAX_NODES = 300;
+
+const TAKEAWAY_COUNT = 5;
+
+// Validate a POST /api/summarize outline, keeping at most SUMMARIZE_MAX_NODES nodes
+export function parseOutline(value: unknown): OutlineNode | null {
+  const isItem = (item: unknown): item is { label: string; children?: unknown } =>
+    !!item && typeof item === 'object' && typeof (item as OutlineNode).label === 'string';
+  if (!isItem(value)) return null;
+
+  const root: OutlineNode = { label: value.label, children: [] };
+  const queue: Array<[unknown, OutlineNode]> = [[value.children, root]];
+  let count = 1;
+
+  while (queue.length > 0) {
+    const [children, parent] = queue.shift()!;
+    if (!Array.isArray(children)) continue;
+    for (const child of children) {
+      if (!isItem(child) || count >= SUMMARIZE_MAX_NODES) continue;
+      const node: OutlineNode = { label: child.label, children: [] };
+      parent.children.push(node);
+      queue.push([child.children, node]);
+      count++;
+    }
+  }
+  return root;
+}
+
+function countDescendants(node: OutlineNode): number {
+  return node.children.reduce((sum, child) => sum + 1 + countDescendants(child), 0);
+}
+
+// "a", "a and b", "a, b and c"
+function joinLabels(labels: string[]): string {
+  if (labels.length <= 1) return labels.join('');
+  return `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}`;
+}
+
+function outlineLines(node: OutlineNode, depth = 0): string[] {
+  return [`${'  '.repeat(depth)}- ${node.label}`, ...node.children.flatMap((c) => outlineLines(c, depth + 1))];
+}
+
+export async function summarizeOutline(openai: OpenAI, model: string, outline: OutlineNode): Promise<string> {
+  const completion = await openai.chat.completions.create({
+    model,
+    messages: [
+      {
+        role: 'system',
+        content: `You turn a brainstorm outline into a written summary in Markdown: one to three short paragraphs of prose that connect the ideas, then a line "**Key takeaways**" followed by 3-${TAKEAWAY_COUNT} bullet points. No headings, no preamble, and don't invent facts the outline doesn't suggest.`
+      },
+      {
+        role: 'user',
+        content: outlineLines(outline).join('\n')
+      }
+    ],
+    max_tokens: 700,
+  });
+
+  return completion.choices[0]?.message.content?.trim() ?? '';
+}
+
+/**
+ * Deterministic outline-to-prose summary for when no LLM is configured: an overview
+ * sentence, one sentence per branch, and the biggest branches as takeaways.
+ */
+export function templateSummary(outline: OutlineNode): string {
+  const total = countDescendants(outline);
+  if (total === 0) return `"${outline.label}" has no ideas under it yet.`;
+
+  const branches = outline.children.filter((c) => c.children.length > 0);
+  const leaves = outline.children.filter((c) => c.children.length === 0);
+
+  const overview = `"${outline.label}" brings together ${total} ${total === 1 ? 'idea' : 'ideas'}`
+    + (outline.children.length > 1 ? ` across ${outline.children.length} threads: ${joinLabels(outline.children.map((c) => c.label))}.` : `, all under ${outline.children[0]!.label}.`);
+
+  const details = branches.map((branch) => {
+    const deeper = countDescendants(branch) - branch.children.length;
+    return `${branch.label} covers ${joinLabels(branch.children.map((c) => c.label))}`
+      + (deeper > 0 ? `, with ${deeper} more ${deeper === 1 ? 'idea' : 'ideas'} below.` : '.');
+  });
+  if (leaves.length > 0 && branches.length > 0) {
+    details.push(`It also touches on ${joinLabels(leaves.map((c) => c.label))}.`);
+  }
+
+  const takeaways = [...outline.children]
+    .sort((a, b) => countDescendants(b) - countDescendants(a))
+    .slice(0, TAKEAWAY_COUNT)
+    .map((child) => {
+      const size = countDescendants(child);
+      return size > 0 ? `- ${child.label} (${size} ${size === 1 ? 'idea' : 'ideas'})` : `- ${child.label}`;
+    });
+
+  return [overview, ...(details.length > 0 ? [details.join(' ')] : []), '**Key takeaways**', takeaways.join('\n')].join('\n\n');
+}
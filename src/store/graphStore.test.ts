@@ -0,0 +1,47 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { BrainstormNode, BrainstormEdge } from '../types';
+import { installMemoryLocalStorage } from '../utils/testUtils';
+
+installMemoryLocalStorage();
+
+// ELK needs a Web Worker, which Bun doesn't have
+vi.mock('../utils/layout', () => ({
+  getLayoutedElements: async (nodes: BrainstormNode[], edges: BrainstormEdge[]) => ({ nodes, edges }),
+}));
+
+const { useGraphStore } = await import('./graphStore');
+const { useProjectStore } = await import('./projectStore');
+const { useSettingsStore } = await import('./settingsStore');
+const { findEmbeddingMismatches, FALLBACK_EMBEDDING_MODEL } = await import('../utils/api');
+
+describe('add queue', () => {
+  it('should mark a node whose embedding request failed and place it on retry', async () => {
+    const projectId = useProjectStore.getState().createProject('Ores');
+    useProjectStore.getState().switchProject(projectId);
+    useSettingsStore.setState({ embeddingProvider: 'server', serverProvider: null });
+    const fetchMock = vi.fn(async () => new Response('Bad gateway', { status: 502 }));
+    vi.spyOn(globalThis, 'fetch').mockImplementation(fetchMock);
+
+    await useGraphStore.getState().addNode('Copper');
+    const failed = useGraphStore.getState().nodes.find((n) => n.data.label === 'Copper')!;
+    expect(failed.data.pending?.error).toBeTruthy();
+    expect(failed.data.vector).toBeUndefined();
+
+    fetchMock.mockImplementation(async () => Response.json({ embedding: [1, 0, 0] }));
+    await useGraphStore.getState().retryPendingNode(failed.id);
+    const placed = useGraphStore.getState().nodes.find((n) => n.id === failed.id)!;
+    expect(placed.data.pending).toBeUndefined();
+    expect(placed.data.vector).toEqual([1, 0, 0]);
+    expect(placed.data.parentId).toBe('root');
+  });
+
+  it('should tag fallback vectors so the mismatch check offers to re-embed them', async () => {
+    useSettingsStore.setState({ embeddingProvider: 'server', serverProvider: null });
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response('Bad gateway', { status: 502 }));
+
+    await useGraphStore.getState().addNodes([{ label: 'Iron' }, { label: 'Tin' }]);
+    const pasted = useGraphStore.getState().nodes.filter((n) => ['Iron', 'Tin'].includes(n.data.label));
+    expect(pasted.map((n) => n.data.embeddingModel)).toEqual([FALLBACK_EMBEDDING_MODEL, FALLBACK_EMBEDDING_MODEL]);
+    expect(findEmbeddingMismatches(pasted)).toHaveLength(2);
+  });
+});
@@ -6,10 +6,21 @@ import {
     type NodeChange,
     type EdgeChange,
 } from "@xyflow/react";
-import type { BrainstormNode, BrainstormEdge } from "../types";
+import type { BrainstormNode, BrainstormEdge, PlacementDecision, ClusteringSettings, ExpandStyle, OutlineNode } from "../types";
 import { getLayoutedElements } from "../utils/layout";
-import { findParentForNewNode } from "../utils/semantic";
-import { getEmbedding } from "../utils/api";
+import { findBestParent, pickParent, rankParentCandidates, cosineSimilarity, findCentralNode, getEmbeddingText } from "../utils/semantic";
+import { getEmbedding, getBatchEmbeddings, getEmbeddingModelFor, getTopicName, getSummary, streamExpansions, type EmbeddingResult } from "../utils/api";
+import { encodeMermaidLabel } from "../utils/mermaid";
+import { formatMarkdownOutline, type PastedItem } from "../utils/markdown";
+import { planReorganization, type ReorganizePlan } from "../utils/reorganize";
+import {
+    isCrossLink,
+    getTreeEdges,
+    getCrossLinks,
+    createCrossLinkEdge,
+    createTreeEdge,
+    getSubtreeIds,
+} from "../utils/edges";
 
 // Topic colors for visual distinction
 const TOPIC_COLORS = [
@@ -25,6 +36,250 @@ const TOPIC_COLORS = [
     "#6366f1", // Indigo
 ];
 
+// How much better a new parent must fit an edited node before suggesting a move
+const REHOME_MIN_GAIN = 0.1;
+
+// Alternative parents offered after auto-organize places a node
+const PLACEMENT_CANDIDATES = 5;
+
+// Labels sent per request by the re-embed project job
+const REEMBED_BATCH_SIZE = 16;
+
+// Command palette node picker: choose the target of a cross-link or a move
+export type NodePickerAction = "link" | "move";
+
+interface NodePicker {
+    action: NodePickerAction;
+    sourceId: string;
+}
+
+// Alternatives offered right after auto-organize placed a node
+export interface PlacementReview {
+    nodeId: string;
+    candidates: Array<{
+        parentId: string;
+        similarity: number;
+        directSimilarity: number;
+        clusterSimilarity?: number;
+    }>;
+    choice: number; // Index into candidates, or -1 for "new topic"
+    topicColor?: string; // Color the node has as a new topic, kept while cycling
+}
+
+// Whole-graph re-organize waiting for the user to review its moves
+export interface ReorganizeProposal extends ReorganizePlan {
+    threshold: number;
+}
+
+// Ghost children streamed in by "expand node", each accepted or rejected on the canvas
+export interface Expansion {
+    nodeId: string;
+    style: ExpandStyle;
+    count: number;
+    status: "idle" | "streaming" | "done" | "error";
+    ghosts: Array<{ id: string; label: string }>;
+    error?: string;
+}
+
+interface RehomeSuggestion {
+    nodeId: string;
+    parentId: string;
+    similarity: number;
+    currentSimilarity: number;
+}
+
+interface ReembedJob {
+    done: number;
+    total: number;
+}
+
+interface PlacedNode {
+    node: BrainstormNode;
+    edge: BrainstormEdge;
+    colorIndex: number;
+    review?: PlacementReview; // Auto-organized placements only
+}
+
+// Cancels the expansion stream when it's re-run or closed
+let expansionAbort: AbortController | null = null;
+
+// Adds run one at a time, each against the graph left by the previous one
+let addQueue: Promise<void> = Promise.resolve();
+let queuedAdds = 0;
+
+function enqueueAdd(job: () => Promise<void>, setProcessing: (isProcessing: boolean) => void): Promise<void> {
+    queuedAdds++;
+    setProcessing(true);
+    addQueue = addQueue
+        .then(job)
+        .catch((error) => console.error("Add queue job failed:", error))
+        .finally(() => {
+            queuedAdds--;
+            if (queuedAdds === 0) setProcessing(false);
+        });
+    return addQueue;
+}
+
+// Snapshot of the graph for the undo stack
+function createHistoryState(state: Pick<GraphStore, "nodes" | "edges" | "selectedNodeId" | "colorIndex">): HistoryState {
+    const { nodes, edges } = withoutPending(state.nodes, state.edges);
+    return {
+        nodes: JSON.parse(JSON.stringify(nodes)),
+        edges: JSON.parse(JSON.stringify(edges)),
+        selectedNodeId: state.selectedNodeId,
+        colorIndex: state.colorIndex,
+    };
+}
+
+// Placeholder nodes of queued adds stay out of history and the saved project
+function withoutPending(nodes: BrainstormNode[], edges: BrainstormEdge[]) {
+    const pendingIds = new Set(nodes.filter((n) => n.data.pending).map((n) => n.id));
+    if (pendingIds.size === 0) return { nodes, edges };
+
+    return {
+        nodes: nodes.filter((n) => !pendingIds.has(n.id)),
+        edges: edges.filter((e) => !pendingIds.has(e.source) && !pendingIds.has(e.target)),
+    };
+}
+
+// Put the current placeholders back on top of a history snapshot
+function withPending(
+    snapshot: HistoryState,
+    nodes: BrainstormNode[],
+    edges: BrainstormEdge[],
+): Pick<HistoryState, "nodes" | "edges"> {
+    const restoredNodes: BrainstormNode[] = JSON.parse(JSON.stringify(snapshot.nodes));
+    const restoredEdges: BrainstormEdge[] = JSON.parse(JSON.stringify(snapshot.edges));
+    const pending = nodes.filter((n) => n.data.pending);
+    if (pending.length === 0) return { nodes: restoredNodes, edges: restoredEdges };
+
+    const ids = new Set([...restoredNodes, ...pending].map((n) => n.id));
+    const pendingIds = new Set(pending.map((n) => n.id));
+    return {
+        nodes: [...restoredNodes, ...pending],
+        edges: [
+            ...restoredEdges,
+            ...edges.filter((e) => pendingIds.has(e.target) && ids.has(e.source)),
+        ],
+    };
+}
+
+// Auto-organize settings of the active project (dynamic import avoids a circular dependency)
+async function getClusteringSettings(): Promise<ClusteringSettings> {
+    const { getActiveClusteringSettings } = await import("./projectStore");
+    return getActiveClusteringSettings();
+}
+
+function createNodeId(): string {
+    return `n-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+/**
+ * Create a node and the tree edge attaching it. With a parentId the node goes under that
+ * node, otherwise auto-organize picks the most similar node or starts a new topic.
+ */
+function placeNode(
+    text: string,
+    embedding: number[],
+    embeddingModel: string | undefined,
+    parentId: string | undefined,
+    nodes: BrainstormNode[],
+    edges: BrainstormEdge[],
+    colorIndex: number,
+    clustering: ClusteringSettings,
+    nodeId: string = createNodeId(),
+): PlacedNode {
+    let parentNode: BrainstormNode | null = null;
+    let newNodeType: "anchor" | "satellite" = "satellite";
+    let nodeColor = "#636ef1";
+    let nodeTopic = "General";
+    let review: PlacementReview | undefined;
+    let placement: PlacementDecision;
+
+    if (parentId) {
+        // If parent is specified, use it directly
+        parentNode = nodes.find((n) => n.id === parentId) || null;
+        if (parentNode) {
+            nodeColor = parentNode.data.color || nodeColor;
+            nodeTopic = parentNode.data.topic || nodeTopic;
+        }
+        placement = { mode: "manual", result: "attached", decidedAt: Date.now() };
+    } else {
+        // Semantic clustering: find best parent based on similarity (same rule as findParentForNewNode)
+        const best = findBestParent(embedding, nodes, edges, clustering);
+        parentNode = pickParent(best, clustering.threshold);
+        const candidates = rankParentCandidates(embedding, nodes, edges, PLACEMENT_CANDIDATES, clustering);
+
+        // Keep the numbers behind the decision for the node inspector
+        placement = {
+            mode: "auto",
+            result: parentNode ? "attached" : "new-topic",
+            strategy: clustering.strategy,
+            branch: best.branch,
+            similarity: best.node ? best.similarity : undefined,
+            threshold: clustering.threshold,
+            candidates: candidates.map((c) => ({
+                id: c.node.id,
+                label: c.node.data.label,
+                similarity: c.similarity,
+                directSimilarity: c.directSimilarity,
+                clusterSimilarity: c.clusterSimilarity,
+            })),
+            decidedAt: Date.now(),
+        };
+        review = {
+            nodeId,
+            candidates: candidates.map((c) => ({
+                parentId: c.node.id,
+                similarity: c.similarity,
+                directSimilarity: c.directSimilarity,
+                clusterSimilarity: c.clusterSimilarity,
+            })),
+            choice: parentNode ? candidates.findIndex((c) => c.node.id === parentNode!.id) : -1,
+        };
+
+        if (parentNode) {
+            // Found a good match - attach as satellite
+            nodeColor = parentNode.data.color || nodeColor;
+            nodeTopic = parentNode.data.topic || nodeTopic;
+        } else {
+            // No good match - create new anchor (topic)
+            nodeColor = TOPIC_COLORS[colorIndex % TOPIC_COLORS.length]!;
+            nodeTopic = text;
+            newNodeType = "anchor";
+            parentNode = nodes.find((n) => n.id === "root") || null;
+            colorIndex++;
+            review.topicColor = nodeColor;
+        }
+    }
+
+    const node: BrainstormNode = {
+        id: nodeId,
+        type: newNodeType,
+        position: { x: 0, y: 0 },
+        data: {
+            label: text,
+            topic: nodeTopic,
+            color: nodeColor,
+            vector: embedding,
+            embeddingModel,
+            parentId: parentNode?.id,
+            isAnchor: newNodeType === "anchor",
+            placement,
+            createdAt: Date.now(),
+        },
+    };
+
+    const edge = createTreeEdge(
+        parentNode?.id || "root",
+        nodeId,
+        nodeColor,
+        newNodeType === "anchor",
+    );
+
+    return { node, edge, colorIndex, review };
+}
+
 interface HistoryState {
     nodes: BrainstormNode[];
     edges: BrainstormEdge[];
@@ -42,6 +297,15 @@ interface GraphStore {
     isProcessing: boolean;
     colorIndex: number;
     editingNodeId: string | null;
+    notesNodeId: string | null; // Node whose inline notes editor is open
+    nodePicker: NodePicker | null;
+    rehomeSuggestion: RehomeSuggestion | null;
+    placementReview: PlacementReview | null;
+    reorganizeProposal: ReorganizeProposal | null;
+    expansion: Expansion | null;
+    isInspectorOpen: boolean;
+    isChatOpen: boolean;
+    reembedJob: ReembedJob | null;
     inputBarFocusFn: (() => void) | null;
     inputBarToggleModeFn: (() => void) | null;
     inputBarAutoModeFn: (() => void) | null;
@@ -64,6 +328,11 @@ interface GraphStore {
     setCommandPaletteOpen: (open: boolean) => void;
     openCommandPaletteWithQuery: (query: string) => void;
     setEditingNodeId: (id: string | null) => void;
+    setNotesNodeId: (id: string | null) => void;
+    openNodePicker: (action: NodePickerAction, sourceId: string) => void;
+    closeNodePicker: () => void;
+    setInspectorOpen: (open: boolean) => void;
+    setChatOpen: (open: boolean) => void;
     setInputBarFocusFn: (fn: (() => void) | null) => void;
     focusInputBar: () => void;
     setInputBarToggleModeFn: (fn: (() => void) | null) => void;
@@ -83,13 +352,41 @@ interface GraphStore {
     // Graph operations
     addNode: (text: string, parentId?: string, selectNewNode?: boolean) => Promise<void>;
     addNodeToSelected: (text: string, selectNewNode?: boolean) => Promise<void>;
+    addNodes: (items: PastedItem[], parentId?: string, selectNewNode?: boolean) => Promise<void>;
+    placePendingNode: (nodeId: string) => Promise<void>;
+    retryPendingNode: (nodeId: string) => Promise<void>;
     deleteNode: (nodeId: string) => void;
     updateNodeLabel: (nodeId: string, label: string) => void;
+    updateNodeNotes: (nodeId: string, notes: string) => void;
+    reembedNode: (nodeId: string) => Promise<void>;
+    reembedProject: () => Promise<void>;
+    nameTopics: (nodeId?: string) => Promise<number>;
+    summarizeNode: (nodeId: string) => Promise<{ fallback: boolean } | null>;
+    moveNode: (nodeId: string, newParentId: string) => boolean;
+    acceptRehomeSuggestion: () => void;
+    dismissRehomeSuggestion: () => void;
+    choosePlacement: (choice: number) => Promise<void>;
+    cyclePlacement: () => Promise<void>;
+    dismissPlacementReview: () => void;
+    togglePinned: (nodeId: string) => void;
+    proposeReorganize: () => Promise<boolean>;
+    applyReorganize: () => void;
+    dismissReorganize: () => void;
+    openExpansion: (nodeId: string) => void;
+    setExpansionOptions: (options: { style?: ExpandStyle; count?: number }) => void;
+    runExpansion: () => Promise<void>;
+    acceptGhost: (ghostId: string) => void;
+    rejectGhost: (ghostId: string) => void;
+    acceptAllGhosts: () => void;
+    closeExpansion: () => void;
+    addCrossLink: (sourceId: string, targetId: string, label?: string) => boolean;
+    removeCrossLink: (sourceId: string, targetId: string) => void;
     layoutGraph: () => Promise<void>;
 
     // Export
     exportToJson: () => object;
     exportToMarkdown: () => string;
+    exportToMermaid: () => string;
 
     // Reset
     resetGraph: () => void;
@@ -128,6 +425,15 @@ export const useGraphStore = create<GraphStore>()(
             isProcessing: false,
             colorIndex: 0,
             editingNodeId: null,
+            notesNodeId: null,
+            nodePicker: null,
+            rehomeSuggestion: null,
+            placementReview: null,
+            reorganizeProposal: null,
+            expansion: null,
+            isInspectorOpen: false,
+            isChatOpen: false,
+            reembedJob: null,
             inputBarFocusFn: null,
             inputBarToggleModeFn: null,
             inputBarAutoModeFn: null,
@@ -171,6 +477,14 @@ export const useGraphStore = create<GraphStore>()(
             openCommandPaletteWithQuery: (query) =>
                 set({ isCommandPaletteOpen: true, searchQuery: query }),
             setEditingNodeId: (id) => set({ editingNodeId: id }),
+            setNotesNodeId: (id) => set({ notesNodeId: id }),
+            // Picker mode: the command palette picks the target node for a link or move
+            openNodePicker: (action, sourceId) =>
+                set({ nodePicker: { action, sourceId }, isCommandPaletteOpen: true, searchQuery: "" }),
+            closeNodePicker: () => set({ nodePicker: null }),
+            // The inspector and the chat share the right edge, so opening one closes the other
+            setInspectorOpen: (open) => set(open ? { isInspectorOpen: true, isChatOpen: false } : { isInspectorOpen: false }),
+            setChatOpen: (open) => set(open ? { isChatOpen: true, isInspectorOpen: false } : { isChatOpen: false }),
             setInputBarFocusFn: (fn) => set({ inputBarFocusFn: fn }),
             focusInputBar: () => {
                 const { inputBarFocusFn } = get();
@@ -208,15 +522,10 @@ export const useGraphStore = create<GraphStore>()(
 
             // History management
             saveToHistory: () => {
-                const { nodes, edges, selectedNodeId, colorIndex, history, historyIndex, maxHistorySize } = get();
+                const { history, historyIndex, maxHistorySize } = get();
 
                 // Create new history state
-                const newState: HistoryState = {
-                    nodes: JSON.parse(JSON.stringify(nodes)),
-                    edges: JSON.parse(JSON.stringify(edges)),
-                    selectedNodeId,
-                    colorIndex,
-                };
+                const newState = createHistoryState(get());
 
                 // Remove any future history if we're not at the end
                 const newHistory = history.slice(0, historyIndex + 1);
@@ -231,9 +540,13 @@ export const useGraphStore = create<GraphStore>()(
                     newIndex = maxHistorySize - 1;
                 }
 
+                // Any other change ends the chance to revise the last placement,
+                // and makes a proposed re-organize stale
                 set({
                     history: newHistory,
                     historyIndex: newIndex,
+                    placementReview: null,
+                    reorganizeProposal: null,
                 });
             },
 
@@ -242,14 +555,15 @@ export const useGraphStore = create<GraphStore>()(
 
                 if (historyIndex > 0) {
                     const newIndex = historyIndex - 1;
-                    const state = history[newIndex];
+                    const state = history[newIndex]!;
 
                     set({
-                        nodes: JSON.parse(JSON.stringify(state.nodes)),
-                        edges: JSON.parse(JSON.stringify(state.edges)),
+                        ...withPending(state, get().nodes, get().edges),
                         selectedNodeId: state.selectedNodeId,
                         colorIndex: state.colorIndex,
                         historyIndex: newIndex,
+                        placementReview: null,
+                        reorganizeProposal: null,
                     });
                 }
             },
@@ -259,14 +573,15 @@ export const useGraphStore = create<GraphStore>()(
 
                 if (historyIndex < history.length - 1) {
                     const newIndex = historyIndex + 1;
-                    const state = history[newIndex];
+                    const state = history[newIndex]!;
 
                     set({
-                        nodes: JSON.parse(JSON.stringify(state.nodes)),
-                        edges: JSON.parse(JSON.stringify(state.edges)),
+                        ...withPending(state, get().nodes, get().edges),
                         selectedNodeId: state.selectedNodeId,
                         colorIndex: state.colorIndex,
                         historyIndex: newIndex,
+                        placementReview: null,
+                        reorganizeProposal: null,
                     });
                 }
             },
@@ -281,108 +596,177 @@ export const useGraphStore = create<GraphStore>()(
                 return historyIndex < history.length - 1;
             },
 
-            // Add node with semantic clustering
+            // Add node with semantic clustering. A placeholder shows up right away and the
+            // add queue embeds and places it once the adds before it are done.
             addNode: async (text: string, parentId?: string, selectNewNode: boolean = true) => {
-                const { nodes, edges, colorIndex, selectedNodeId } = get();
-                set({ isProcessing: true });
+                const { nodes, edges, selectedNodeId } = get();
+                const nodeId = createNodeId();
+                const parentNode = parentId ? nodes.find((n) => n.id === parentId) : undefined;
+
+                const placeholder: BrainstormNode = {
+                    id: nodeId,
+                    type: "satellite",
+                    position: parentNode ? { ...parentNode.position } : { x: 0, y: 0 },
+                    data: {
+                        label: text,
+                        color: parentNode?.data.color,
+                        pending: { parentId },
+                        createdAt: Date.now(),
+                    },
+                };
 
-                try {
-                    // Get embedding for the new text
-                    const embedding = await getEmbedding(text);
-
-                    let parentNode: BrainstormNode | null = null;
-                    let newNodeType: "anchor" | "satellite" = "satellite";
-                    let nodeColor = "#636ef1";
-                    let nodeTopic = "General";
-
-                    if (false || parentId) {
-                        // If parent is specified, use it directly
-                        parentNode =
-                            nodes.find((n) => n.id === parentId) || null;
-                        if (parentNode) {
-                            nodeColor = parentNode.data.color || nodeColor;
-                            nodeTopic = parentNode.data.topic || nodeTopic;
-                        }
-                    } else {
-                        // Semantic clustering: find best parent based on similarity
-                        parentNode = findParentForNewNode(embedding, nodes, edges, 0.4);
-
-                        if (parentNode) {
-                            // Found a good match - attach as satellite
-                            nodeColor = parentNode.data.color || nodeColor;
-                            nodeTopic = parentNode.data.topic || nodeTopic;
-                            newNodeType = "satellite";
-                        } else {
-                            // No good match - create new anchor (topic)
-                            const newColor =
-                                TOPIC_COLORS[colorIndex % TOPIC_COLORS.length];
-                            nodeColor = newColor;
-                            nodeTopic = text;
-                            newNodeType = "anchor";
-                            parentNode =
-                                nodes.find((n) => n.id === "root") || null;
-                            set({ colorIndex: colorIndex + 1 });
-                        }
-                    }
+                set({
+                    nodes: [...nodes, placeholder],
+                    edges: [...edges, createTreeEdge(parentNode?.id || "root", nodeId, "#ffffff", false)],
+                    selectedNodeId: selectNewNode ? nodeId : selectedNodeId,
+                });
+                get().layoutGraph();
 
-                    // Create new node
-                    const newNodeId = `n-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
-                    const newNode: BrainstormNode = {
-                        id: newNodeId,
-                        type: newNodeType,
-                        position: { x: 0, y: 0 },
-                        data: {
-                            label: text,
-                            topic: nodeTopic,
-                            color: nodeColor,
-                            vector: embedding,
-                            parentId: parentNode?.id,
-                            isAnchor: newNodeType === "anchor",
-                            createdAt: Date.now(),
-                        },
-                    };
-
-                    // Create edge
-                    const newEdge: BrainstormEdge = {
-                        id: `e-${parentNode?.id || "root"}-${newNodeId}`,
-                        source: parentNode?.id || "root",
-                        target: newNodeId,
-                        type: "smoothstep",
-                        style: {
-                            stroke: nodeColor,
-                            strokeWidth: newNodeType === "anchor" ? 2 : 1.5,
-                            opacity: newNodeType === "anchor" ? 0.8 : 0.5,
-                        },
-                        animated: false,
-                    };
+                await enqueueAdd(() => get().placePendingNode(nodeId), (isProcessing) => set({ isProcessing }));
+            },
+
+            // Embed a placeholder and place it against the latest graph, or record why it failed
+            placePendingNode: async (nodeId: string) => {
+                const pendingNode = get().nodes.find((n) => n.id === nodeId);
+                if (!pendingNode?.data.pending) return; // Deleted or already placed
+
+                const { label } = pendingNode.data;
+                const { parentId } = pendingNode.data.pending;
 
-                    const newNodes = [...nodes, newNode];
-                    const newEdges = [...edges, newEdge];
+                try {
+                    const result = await getEmbedding(label);
+                    // A stand-in vector would place the idea at random
+                    if (result.isFallback) throw new Error("The embedding provider didn't respond");
+                    const clustering = await getClusteringSettings();
+
+                    const { nodes, edges, colorIndex } = get();
+                    if (!nodes.some((n) => n.id === nodeId && n.data.pending)) return;
+                    if (parentId && nodes.find((n) => n.id === parentId)?.data.pending) {
+                        throw new Error("Its parent idea hasn't been added");
+                    }
 
-                    // Apply layout
-                    const layouted = await getLayoutedElements(
-                        newNodes,
-                        newEdges,
+                    const settled = withoutPending(nodes, edges);
+                    const placed = placeNode(
+                        label,
+                        result.embedding,
+                        getEmbeddingModelFor(result),
+                        parentId,
+                        settled.nodes,
+                        settled.edges,
+                        colorIndex,
+                        clustering,
+                        nodeId,
                     );
 
                     set({
-                        nodes: layouted.nodes,
-                        edges: layouted.edges,
-                        selectedNodeId: selectNewNode ? newNodeId : selectedNodeId,
-                        isProcessing: false,
+                        nodes: nodes.map((n) =>
+                            n.id === nodeId ? { ...placed.node, position: n.position } : n,
+                        ),
+                        edges: [...edges.filter((e) => e.target !== nodeId), placed.edge],
+                        colorIndex: placed.colorIndex,
                     });
 
+                    await get().layoutGraph();
+
                     // Save the new state to history
                     get().saveToHistory();
 
                     // Sync to project store
                     get().syncToProject();
+
+                    // Offer the other candidates until the next change
+                    if (placed.review) {
+                        set({ placementReview: placed.review });
+                    }
                 } catch (error) {
                     console.error("Error adding node:", error);
-                    set({ isProcessing: false });
+                    const message = error instanceof Error ? error.message : String(error);
+                    set({
+                        nodes: get().nodes.map((n) =>
+                            n.id === nodeId && n.data.pending
+                                ? { ...n, data: { ...n.data, pending: { ...n.data.pending, error: message } } }
+                                : n,
+                        ),
+                    });
                 }
             },
 
+            // Queue a failed placeholder again
+            retryPendingNode: async (nodeId: string) => {
+                const node = get().nodes.find((n) => n.id === nodeId);
+                if (!node?.data.pending?.error) return;
+
+                set({
+                    nodes: get().nodes.map((n) =>
+                        n.id === nodeId ? { ...n, data: { ...n.data, pending: { parentId: n.data.pending?.parentId } } } : n,
+                    ),
+                });
+
+                await enqueueAdd(() => get().placePendingNode(nodeId), (isProcessing) => set({ isProcessing }));
+            },
+
+            // Add many nodes at once (bulk paste): one embedding batch, one layout, one undo step.
+            // With a parentId items keep their pasted nesting under it, otherwise each item
+            // is auto-organized in order against the graph built so far.
+            addNodes: async (items: PastedItem[], parentId?: string, selectNewNode: boolean = true) => {
+                if (items.length === 0) return;
+
+                // Drop the paste if the user switches project before it is placed
+                const { useProjectStore } = await import("./projectStore");
+                const projectId = useProjectStore.getState().activeProjectId;
+
+                await enqueueAdd(async () => {
+                    try {
+                        const results = await getBatchEmbeddings(items.map((item) => item.label));
+                        const clustering = await getClusteringSettings();
+                        if (useProjectStore.getState().activeProjectId !== projectId) return;
+
+                        // Place against the graph as it is now, not as it was when the paste was queued
+                        const { nodes, edges, colorIndex, selectedNodeId } = get();
+                        const settled = withoutPending(nodes, edges);
+                        let placedNodes = settled.nodes;
+                        let placedEdges = settled.edges;
+                        let nextColorIndex = colorIndex;
+                        const created: PlacedNode[] = [];
+
+                        items.forEach((item, i) => {
+                            const itemParentId = !parentId
+                                ? undefined
+                                : item.parentIndex !== undefined
+                                    ? created[item.parentIndex]?.node.id
+                                    : parentId;
+                            const placed = placeNode(
+                                item.label,
+                                results[i]!.embedding,
+                                getEmbeddingModelFor(results[i]!),
+                                itemParentId,
+                                placedNodes,
+                                placedEdges,
+                                nextColorIndex,
+                                clustering,
+                            );
+                            placedNodes = [...placedNodes, placed.node];
+                            placedEdges = [...placedEdges, placed.edge];
+                            nextColorIndex = placed.colorIndex;
+                            created.push(placed);
+                        });
+
+                        set({
+                            nodes: [...nodes, ...created.map((c) => c.node)],
+                            edges: [...edges, ...created.map((c) => c.edge)],
+                            colorIndex: nextColorIndex,
+                            selectedNodeId: selectNewNode ? created[created.length - 1]!.node.id : selectedNodeId,
+                        });
+
+                        await get().layoutGraph();
+                        get().saveToHistory();
+                        get().syncToProject();
+                    } catch (error) {
+                        console.error("Error adding nodes:", error);
+                    }
+                }, (isProcessing) => set({ isProcessing }));
+            },
+
             // Add node to currently selected node
             // Add node to currently selected node
             addNodeToSelected: async (text: string, selectNewNode: boolean = true) => {
@@ -396,15 +780,8 @@ export const useGraphStore = create<GraphStore>()(
 
                 const { nodes, edges } = get();
 
-                // Find all descendant node IDs
-                const descendantIds = new Set<string>();
-                const findDescendants = (id: string) => {
-                    descendantIds.add(id);
-                    edges
-                        .filter((e) => e.source === id)
-                        .forEach((e) => findDescendants(e.target));
-                };
-                findDescendants(nodeId);
+                // Find all descendant node IDs (cross-links don't own their targets)
+                const descendantIds = getSubtreeIds(nodeId, edges);
 
                 // Remove nodes and edges
                 const newNodes = nodes.filter((n) => !descendantIds.has(n.id));
@@ -435,6 +812,9 @@ export const useGraphStore = create<GraphStore>()(
 
             // Update node label
             updateNodeLabel: (nodeId: string, label: string) => {
+                const previous = get().nodes.find((n) => n.id === nodeId);
+                if (previous?.data.pending) return; // Already queued with its label
+
                 set({
                     nodes: get().nodes.map((n) =>
                         n.id === nodeId
@@ -449,22 +829,724 @@ export const useGraphStore = create<GraphStore>()(
 
                 // Sync to project store
                 get().syncToProject();
+
+                // The old vector no longer describes the node (root has no vector)
+                if (nodeId !== "root" && previous && previous.data.label !== label) {
+                    get().reembedNode(nodeId);
+                }
+            },
+
+            // Replace a node's Markdown notes ('' clears them)
+            updateNodeNotes: (nodeId: string, notes: string) => {
+                const previous = get().nodes.find((n) => n.id === nodeId);
+                if (!previous || previous.data.pending) return;
+
+                const trimmed = notes.trim();
+                if ((previous.data.notes ?? "") === trimmed) return;
+
+                set({
+                    nodes: get().nodes.map((n) => {
+                        if (n.id !== nodeId) return n;
+                        const { notes: _notes, ...data } = n.data;
+                        return { ...n, data: trimmed ? { ...data, notes: trimmed } : data };
+                    }),
+                });
+
+                // Save the new state to history
+                get().saveToHistory();
+
+                // Sync to project store
+                get().syncToProject();
+
+                // Notes are part of the embedded text
+                if (nodeId !== "root" && getEmbeddingText(previous.data) !== getEmbeddingText({ ...previous.data, notes: trimmed })) {
+                    get().reembedNode(nodeId);
+                }
+            },
+
+            // Recompute a node's embedding and suggest a better parent if it now fits elsewhere
+            reembedNode: async (nodeId: string) => {
+                const current = get().nodes.find((n) => n.id === nodeId);
+                if (!current) return;
+                const text = getEmbeddingText(current.data);
+
+                let result: EmbeddingResult;
+                try {
+                    result = await getEmbedding(text);
+                } catch (error) {
+                    console.error("Error re-embedding node:", error);
+                    return;
+                }
+
+                // Ignore the result if the label or notes changed again in the meantime
+                const node = get().nodes.find((n) => n.id === nodeId);
+                if (!node || getEmbeddingText(node.data) !== text) return;
+
+                const vector = result.embedding;
+                const embeddingModel = getEmbeddingModelFor(result);
+                const withVector = (list: BrainstormNode[]) =>
+                    list.map((n) =>
+                        n.id === nodeId && getEmbeddingText(n.data) === text
+                            ? { ...n, data: { ...n.data, vector, embeddingModel } }
+                            : n,
+                    );
+
+                // Patch the current history entry too, so undo/redo don't bring back the stale vector
+                set((state) => ({
+                    nodes: withVector(state.nodes),
+                    history: state.history.map((h, i) =>
+                        i === state.historyIndex ? { ...h, nodes: withVector(h.nodes) } : h,
+                    ),
+                }));
+                get().syncToProject();
+
+                // A stand-in vector says nothing about where the node belongs
+                if (result.isFallback) return;
+
+                // Find the best parent outside the node's own subtree
+                const clustering = await getClusteringSettings();
+                const { nodes, edges } = get();
+                const subtreeIds = getSubtreeIds(nodeId, edges);
+                const candidates = nodes.filter((n) => !subtreeIds.has(n.id));
+                const best = findBestParent(vector, candidates, edges, clustering);
+                const currentParent = nodes.find((n) => n.id === node.data.parentId);
+
+                if (
+                    !best.node ||
+                    best.node.id === currentParent?.id ||
+                    best.similarity <= clustering.threshold
+                ) {
+                    return;
+                }
+
+                const currentSimilarity = currentParent?.data.vector
+                    ? cosineSimilarity(vector, currentParent.data.vector)
+                    : 0;
+
+                if (best.similarity - currentSimilarity >= REHOME_MIN_GAIN) {
+                    set({
+                        rehomeSuggestion: {
+                            nodeId,
+                            parentId: best.node.id,
+                            similarity: best.similarity,
+                            currentSimilarity,
+                        },
+                    });
+                }
+            },
+
+            // Rewrite every vector of the project with the active embedding provider
+            reembedProject: async () => {
+                if (get().reembedJob) return;
+
+                // Stop if the user switches project while the job runs
+                const { useProjectStore } = await import("./projectStore");
+                const projectId = useProjectStore.getState().activeProjectId;
+
+                const targets = get().nodes
+                    .filter((n) => n.id !== "root" && !n.data.pending)
+                    .map((n) => ({ id: n.id, text: getEmbeddingText(n.data) }));
+
+                set({ reembedJob: { done: 0, total: targets.length } });
+
+                try {
+                    for (let i = 0; i < targets.length; i += REEMBED_BATCH_SIZE) {
+                        const batch = targets.slice(i, i + REEMBED_BATCH_SIZE);
+                        const results = await getBatchEmbeddings(batch.map((t) => t.text));
+                        if (useProjectStore.getState().activeProjectId !== projectId) return;
+
+                        // Skip nodes whose label or notes changed while they were being embedded
+                        const vectors = new Map<string, { text: string; vector: number[]; embeddingModel?: string }>();
+                        batch.forEach((t, j) => {
+                            const result = results[j];
+                            if (result) {
+                                vectors.set(t.id, { text: t.text, vector: result.embedding, embeddingModel: getEmbeddingModelFor(result) });
+                            }
+                        });
+
+                        const withVectors = (list: BrainstormNode[]) =>
+                            list.map((n) => {
+                                const update = vectors.get(n.id);
+                                return update && update.text === getEmbeddingText(n.data)
+                                    ? { ...n, data: { ...n.data, vector: update.vector, embeddingModel: update.embeddingModel } }
+                                    : n;
+                            });
+
+                        // Patch history too, so undo/redo don't bring back stale vectors
+                        set((state) => ({
+                            nodes: withVectors(state.nodes),
+                            history: state.history.map((h) => ({ ...h, nodes: withVectors(h.nodes) })),
+                            reembedJob: { done: i + batch.length, total: targets.length },
+                        }));
+                        get().syncToProject();
+                    }
+                } catch (error) {
+                    console.error("Error re-embedding project:", error);
+                } finally {
+                    set({ reembedJob: null });
+                }
+            },
+
+            // Name the topic containing nodeId (or every topic) after what's in it, keeping
+            // the anchor labels. Resolves to the number of topics whose name changed.
+            nameTopics: async (nodeId?: string) => {
+                const { useProjectStore } = await import("./projectStore");
+                const projectId = useProjectStore.getState().activeProjectId;
+
+                const treeEdges = getTreeEdges(get().edges);
+                const parentOf = new Map(treeEdges.map((e) => [e.target, e.source]));
+                let anchorIds = treeEdges.filter((e) => e.source === "root").map((e) => e.target);
+                if (nodeId) {
+                    let id = nodeId;
+                    while (parentOf.has(id) && parentOf.get(id) !== "root") id = parentOf.get(id)!;
+                    if (!parentOf.has(id)) return 0;
+                    anchorIds = [id];
+                }
+
+                // LLM title, or the most central label when there's no LLM
+                const names = await Promise.all(
+                    anchorIds.map(async (anchorId) => {
+                        const subtreeIds = getSubtreeIds(anchorId, get().edges);
+                        const members = get().nodes.filter((n) => subtreeIds.has(n.id) && !n.data.pending);
+                        const topic = (await getTopicName(members.map((n) => n.data.label)))
+                            ?? findCentralNode(members)?.data.label;
+                        return { anchorId, topic };
+                    }),
+                );
+                if (useProjectStore.getState().activeProjectId !== projectId) return 0;
+
+                // Nodes carry their topic's name, so rename whole subtrees (as they are now)
+                const { nodes, edges } = get();
+                const topics = new Map<string, string>();
+                let renamed = 0;
+                for (const { anchorId, topic } of names) {
+                    const anchor = nodes.find((n) => n.id === anchorId);
+                    if (!anchor || !topic || topic === anchor.data.topic) continue;
+                    getSubtreeIds(anchorId, edges).forEach((id) => topics.set(id, topic));
+                    renamed++;
+                }
+                if (renamed === 0) return 0;
+
+                set({
+                    nodes: nodes.map((n) => {
+                        const topic = topics.get(n.id);
+                        return topic ? { ...n, data: { ...n.data, topic } } : n;
+                    }),
+                });
+
+                // Save the new state to history
+                get().saveToHistory();
+
+                // Sync to project store
+                get().syncToProject();
+
+                return renamed;
+            },
+
+            // Write a summary of the node's subtree into its notes, below any notes already there
+            summarizeNode: async (nodeId: string) => {
+                const { useProjectStore } = await import("./projectStore");
+                const projectId = useProjectStore.getState().activeProjectId;
+
+                const { nodes, edges } = get();
+                const nodeMap = new Map(nodes.map((n) => [n.id, n]));
+                const childrenMap = new Map<string, string[]>();
+                getTreeEdges(edges).forEach((e) => {
+                    if (!childrenMap.has(e.source)) childrenMap.set(e.source, []);
+                    childrenMap.get(e.source)!.push(e.target);
+                });
+
+                const toOutline = (id: string): OutlineNode => ({
+                    label: nodeMap.get(id)!.data.label,
+                    children: (childrenMap.get(id) || [])
+                        .filter((childId) => nodeMap.has(childId) && !nodeMap.get(childId)!.data.pending)
+                        .map(toOutline),
+                });
+                if (!nodeMap.has(nodeId)) return null;
+
+                const { summary, fallback } = await getSummary(toOutline(nodeId));
+                if (!summary || useProjectStore.getState().activeProjectId !== projectId) return null;
+                const node = get().nodes.find((n) => n.id === nodeId);
+                if (!node) return null;
+
+                const notes = node.data.notes?.trim();
+                get().updateNodeNotes(nodeId, notes ? `${notes}\n\n---\n\n${summary}` : summary);
+                return { fallback };
+            },
+
+            // Re-parent a node (and its subtree) under another node
+            moveNode: (nodeId: string, newParentId: string) => {
+                if (nodeId === "root" || nodeId === newParentId) return false;
+
+                const { nodes, edges, colorIndex } = get();
+                const node = nodes.find((n) => n.id === nodeId);
+                const newParent = nodes.find((n) => n.id === newParentId);
+                if (!node || !newParent || node.data.parentId === newParentId) return false;
+
+                // Refuse cycles: can't move a node under its own descendant
+                const subtreeIds = getSubtreeIds(nodeId, edges);
+                if (subtreeIds.has(newParentId)) return false;
+
+                // Under root the node becomes a topic of its own, otherwise it joins the parent's topic
+                const becomesAnchor = newParentId === "root";
+                const color = becomesAnchor
+                    ? TOPIC_COLORS[colorIndex % TOPIC_COLORS.length]!
+                    : newParent.data.color || "#636ef1";
+                const topic = becomesAnchor
+                    ? node.data.label
+                    : newParent.data.topic || "General";
+
+                const newNodes = nodes.map((n): BrainstormNode => {
+                    if (n.id === nodeId) {
+                        return {
+                            ...n,
+                            type: becomesAnchor ? "anchor" : "satellite",
+                            data: {
+                                ...n.data,
+                                parentId: newParentId,
+                                isAnchor: becomesAnchor,
+                                color,
+                                topic,
+                                placement: n.data.placement
+                                    ? { ...n.data.placement, revisedTo: newParentId }
+                                    : {
+                                        mode: "manual",
+                                        result: becomesAnchor ? "new-topic" : "attached",
+                                        decidedAt: Date.now(),
+                                    },
+                            },
+                        };
+                    }
+                    if (subtreeIds.has(n.id)) {
+                        return { ...n, data: { ...n.data, color, topic } };
+                    }
+                    return n;
+                });
+
+                // Replace the old parent edge, drop a cross-link the new tree edge would duplicate,
+                // and recolor the subtree's edges
+                const newEdges = edges
+                    .filter((e) => {
+                        if (isCrossLink(e)) {
+                            return !(
+                                (e.source === nodeId && e.target === newParentId) ||
+                                (e.source === newParentId && e.target === nodeId)
+                            );
+                        }
+                        return e.target !== nodeId;
+                    })
+                    .map((e) =>
+                        !isCrossLink(e) && subtreeIds.has(e.target)
+                            ? { ...e, style: { ...e.style, stroke: color } }
+                            : e,
+                    );
+                newEdges.push(createTreeEdge(newParentId, nodeId, color, becomesAnchor));
+
+                set({
+                    nodes: newNodes,
+                    edges: newEdges,
+                    colorIndex: becomesAnchor ? colorIndex + 1 : colorIndex,
+                    rehomeSuggestion: null,
+                    nodePicker: null,
+                });
+
+                // Save the new state to history
+                get().saveToHistory();
+
+                // Sync to project store
+                get().syncToProject();
+
+                // Re-layout
+                get().layoutGraph();
+
+                return true;
+            },
+
+            acceptRehomeSuggestion: () => {
+                const { rehomeSuggestion } = get();
+                if (!rehomeSuggestion) return;
+                get().moveNode(rehomeSuggestion.nodeId, rehomeSuggestion.parentId);
+                set({ rehomeSuggestion: null });
+            },
+
+            dismissRehomeSuggestion: () => set({ rehomeSuggestion: null }),
+
+            // Re-place the last auto-organized node under another candidate (-1 = new topic).
+            // The change replaces the add's undo step instead of adding one.
+            choosePlacement: async (choice: number) => {
+                const review = get().placementReview;
+                const node = review && get().nodes.find((n) => n.id === review.nodeId);
+                if (!review || !node) return;
+
+                let { colorIndex } = get();
+                let topicColor = review.topicColor;
+                let parent: BrainstormNode | undefined;
+                if (choice === -1) {
+                    parent = get().nodes.find((n) => n.id === "root");
+                    if (!topicColor) {
+                        topicColor = TOPIC_COLORS[colorIndex % TOPIC_COLORS.length]!;
+                        colorIndex++;
+                    }
+                } else {
+                    const candidate = review.candidates[choice];
+                    parent = candidate && get().nodes.find((n) => n.id === candidate.parentId);
+                }
+                if (!parent) return;
+
+                const isAnchor = choice === -1;
+                const color = isAnchor ? topicColor! : parent.data.color || "#636ef1";
+                const topic = isAnchor ? node.data.label : parent.data.topic || "General";
+
+                set({
+                    nodes: get().nodes.map((n) =>
+                        n.id === node.id
+                            ? {
+                                ...n,
+                                type: isAnchor ? "anchor" : "satellite",
+                                data: {
+                                    ...n.data,
+                                    color,
+                                    topic,
+                                    parentId: parent.id,
+                                    isAnchor,
+                                    placement: n.data.placement && { ...n.data.placement, revisedTo: parent.id },
+                                },
+                            }
+                            : n,
+                    ),
+                    edges: [
+                        ...get().edges.filter((e) => e.target !== node.id || isCrossLink(e)),
+                        createTreeEdge(parent.id, node.id, color, isAnchor),
+                    ],
+                    colorIndex,
+                    placementReview: { ...review, choice, topicColor },
+                });
+
+                await get().layoutGraph();
+
+                // Merge into the add's undo step
+                set((state) => ({
+                    history: state.history.map((h, i) =>
+                        i === state.historyIndex ? createHistoryState(state) : h,
+                    ),
+                }));
+                get().syncToProject();
+            },
+
+            // Next candidate, then "new topic", then back to the best one
+            cyclePlacement: async () => {
+                const review = get().placementReview;
+                if (!review || review.candidates.length === 0) return;
+
+                const next = review.choice === -1
+                    ? 0
+                    : review.choice + 1 < review.candidates.length ? review.choice + 1 : -1;
+                await get().choosePlacement(next);
+            },
+
+            dismissPlacementReview: () => set({ placementReview: null }),
+
+            togglePinned: (nodeId: string) => {
+                if (nodeId === "root") return;
+
+                set({
+                    nodes: get().nodes.map((n) =>
+                        n.id === nodeId ? { ...n, data: { ...n.data, pinned: !n.data.pinned } } : n,
+                    ),
+                });
+
+                get().saveToHistory();
+                get().syncToProject();
+            },
+
+            // Work out a fresh structure for the whole graph and hold it for review.
+            // Returns false while queued adds are still being placed.
+            proposeReorganize: async () => {
+                const { nodes, edges } = get();
+                if (nodes.some((n) => n.data.pending)) return false;
+
+                const { threshold } = await getClusteringSettings();
+                set({
+                    reorganizeProposal: { ...planReorganization(nodes, edges, threshold), threshold },
+                    placementReview: null,
+                });
+                return true;
+            },
+
+            // Apply the proposed re-organize as a single undo step
+            applyReorganize: () => {
+                const { reorganizeProposal: proposal, nodes, edges } = get();
+                if (!proposal) return;
+
+                const byId = new Map(nodes.map((n) => [n.id, n]));
+                const children = new Map<string, string[]>();
+                for (const [id, parentId] of Object.entries(proposal.parents)) {
+                    children.set(parentId, [...(children.get(parentId) ?? []), id]);
+                }
+                const moves = new Map(proposal.moves.map((m) => [m.nodeId, m]));
+
+                // Walk down from root: topics keep their color if they already were one,
+                // everything below takes its topic's color
+                let { colorIndex } = get();
+                const updated = new Map<string, BrainstormNode>();
+                const visit = (parentId: string, color: string, topic: string) => {
+                    for (const id of children.get(parentId) ?? []) {
+                        const node = byId.get(id);
+                        if (!node) continue;
+
+                        const isAnchor = parentId === "root";
+                        let nodeColor = color;
+                        let nodeTopic = topic;
+                        if (isAnchor) {
+                            nodeColor = node.data.isAnchor && node.data.color
+                                ? node.data.color
+                                : TOPIC_COLORS[colorIndex++ % TOPIC_COLORS.length]!;
+                            nodeTopic = node.data.isAnchor ? node.data.topic || node.data.label : node.data.label;
+                        }
+
+                        const move = moves.get(id);
+                        updated.set(id, {
+                            ...node,
+                            type: isAnchor ? "anchor" : "satellite",
+                            data: {
+                                ...node.data,
+                                parentId,
+                                isAnchor,
+                                color: nodeColor,
+                                topic: nodeTopic,
+                                ...(move && {
+                                    placement: {
+                                        mode: "auto",
+                                        result: isAnchor ? "new-topic" : "attached",
+                                        similarity: move.similarity,
+                                        threshold: proposal.threshold,
+                                        reorganized: true,
+                                        decidedAt: Date.now(),
+                                    } satisfies PlacementDecision,
+                                }),
+                            },
+                        });
+                        visit(id, nodeColor, nodeTopic);
+                    }
+                };
+                visit("root", "#636ef1", "General");
+
+                const newNodes = nodes.map((n) => updated.get(n.id) ?? n);
+                const treeEdges = newNodes
+                    .filter((n) => updated.has(n.id))
+                    .map((n) => createTreeEdge(n.data.parentId!, n.id, n.data.color!, !!n.data.isAnchor));
+                const treePairs = new Set(treeEdges.map((e) => `${e.source}|${e.target}`));
+
+                // Keep the edges of nodes added since the proposal, and drop cross-links
+                // the new tree edges would duplicate
+                const keptEdges = edges.filter((e) =>
+                    isCrossLink(e)
+                        ? !treePairs.has(`${e.source}|${e.target}`) && !treePairs.has(`${e.target}|${e.source}`)
+                        : !updated.has(e.target),
+                );
+
+                set({
+                    nodes: newNodes,
+                    edges: [...treeEdges, ...keptEdges],
+                    colorIndex,
+                    reorganizeProposal: null,
+                    rehomeSuggestion: null,
+                });
+
+                // Save the new state to history
+                get().saveToHistory();
+
+                // Sync to project store
+                get().syncToProject();
+
+                // Re-layout
+                get().layoutGraph();
+            },
+
+            dismissReorganize: () => set({ reorganizeProposal: null }),
+
+            // Start expanding a node, keeping the last style and count
+            openExpansion: (nodeId: string) => {
+                expansionAbort?.abort();
+                const previous = get().expansion;
+                set({
+                    expansion: {
+                        nodeId,
+                        style: previous?.style ?? "subtopics",
+                        count: previous?.count ?? 5,
+                        status: "idle",
+                        ghosts: [],
+                    },
+                });
+            },
+
+            setExpansionOptions: (options) => {
+                const { expansion } = get();
+                if (expansion) set({ expansion: { ...expansion, ...options } });
+            },
+
+            // Stream suggestions for the node, replacing any ghosts still waiting
+            runExpansion: async () => {
+                const { expansion, nodes, edges } = get();
+                const node = expansion && nodes.find((n) => n.id === expansion.nodeId);
+                if (!expansion || !node) return;
+
+                expansionAbort?.abort();
+                const abort = new AbortController();
+                expansionAbort = abort;
+
+                // Give the LLM the node's place in the tree, not just a flat list of labels
+                const treeEdges = getTreeEdges(edges);
+                const parentOf = new Map(treeEdges.map((e) => [e.target, e.source]));
+                const labelOf = (id: string) => nodes.find((n) => n.id === id)?.data.label ?? "";
+                const path: string[] = [];
+                for (let id: string | undefined = node.id; id; id = parentOf.get(id)) {
+                    path.unshift(labelOf(id));
+                }
+                const parentId = parentOf.get(node.id);
+                const siblings = treeEdges
+                    .filter((e) => parentId && e.source === parentId && e.target !== node.id)
+                    .map((e) => labelOf(e.target));
+                const children = treeEdges.filter((e) => e.source === node.id).map((e) => labelOf(e.target));
+
+                set({ expansion: { ...expansion, status: "streaming", ghosts: [], error: undefined } });
+
+                try {
+                    await streamExpansions(
+                        { path, siblings, children, count: expansion.count, style: expansion.style },
+                        (label) => {
+                            if (abort.signal.aborted) return;
+                            set((state) => ({
+                                expansion: state.expansion && {
+                                    ...state.expansion,
+                                    ghosts: [...state.expansion.ghosts, { id: `ghost-${createNodeId()}`, label }],
+                                },
+                            }));
+                        },
+                        abort.signal,
+                    );
+                    if (!abort.signal.aborted) {
+                        set((state) => ({ expansion: state.expansion && { ...state.expansion, status: "done" } }));
+                    }
+                } catch (error) {
+                    if (abort.signal.aborted) return;
+                    console.error("Error expanding node:", error);
+                    set((state) => ({
+                        expansion: state.expansion && {
+                            ...state.expansion,
+                            status: "error",
+                            error: error instanceof Error ? error.message : "Failed to expand node",
+                        },
+                    }));
+                }
+            },
+
+            // Accepted ghosts go through the add queue like typed ideas
+            acceptGhost: (ghostId: string) => {
+                const { expansion } = get();
+                const ghost = expansion?.ghosts.find((g) => g.id === ghostId);
+                if (!expansion || !ghost) return;
+
+                get().rejectGhost(ghostId);
+                get().addNode(ghost.label, expansion.nodeId, false);
+            },
+
+            rejectGhost: (ghostId: string) => {
+                set((state) => ({
+                    expansion: state.expansion && {
+                        ...state.expansion,
+                        ghosts: state.expansion.ghosts.filter((g) => g.id !== ghostId),
+                    },
+                }));
+            },
+
+            // All remaining ghosts in one batch, so they're one undo step
+            acceptAllGhosts: () => {
+                const { expansion } = get();
+                if (!expansion || expansion.ghosts.length === 0) return;
+
+                get().addNodes(expansion.ghosts.map((g) => ({ label: g.label })), expansion.nodeId, false);
+                get().closeExpansion();
+            },
+
+            closeExpansion: () => {
+                expansionAbort?.abort();
+                expansionAbort = null;
+                set({ expansion: null });
+            },
+
+            // Add a cross-link between two nodes. Returns false if the link isn't allowed.
+            addCrossLink: (sourceId: string, targetId: string, label?: string) => {
+                const { nodes, edges } = get();
+
+                if (sourceId === targetId) return false;
+                if (!nodes.some((n) => n.id === sourceId) || !nodes.some((n) => n.id === targetId)) {
+                    return false;
+                }
+
+                // Refuse duplicates in either direction, and links that repeat a tree edge
+                const alreadyConnected = edges.some(
+                    (e) =>
+                        (e.source === sourceId && e.target === targetId) ||
+                        (e.source === targetId && e.target === sourceId),
+                );
+                if (alreadyConnected) return false;
+
+                set({
+                    edges: [...edges, createCrossLinkEdge(sourceId, targetId, label?.trim())],
+                    nodePicker: null,
+                });
+
+                // Save the new state to history
+                get().saveToHistory();
+
+                // Sync to project store
+                get().syncToProject();
+
+                return true;
+            },
+
+            // Remove the cross-link between two nodes (either direction)
+            removeCrossLink: (sourceId: string, targetId: string) => {
+                const { edges } = get();
+                const newEdges = edges.filter(
+                    (e) =>
+                        !(
+                            isCrossLink(e) &&
+                            ((e.source === sourceId && e.target === targetId) ||
+                                (e.source === targetId && e.target === sourceId))
+                        ),
+                );
+                if (newEdges.length === edges.length) return;
+
+                set({ edges: newEdges, nodePicker: null });
+                get().saveToHistory();
+                get().syncToProject();
             },
 
             // Re-apply layout
             layoutGraph: async () => {
                 const { nodes, edges } = get();
                 const layouted = await getLayoutedElements(nodes, edges);
-                set({ nodes: layouted.nodes, edges: layouted.edges });
+
+                // Only take the positions: queued adds may have changed the graph meanwhile
+                const positions = new Map(layouted.nodes.map((n) => [n.id, n.position]));
+                set({
+                    nodes: get().nodes.map((n) => {
+                        const position = positions.get(n.id);
+                        return position ? { ...n, position } : n;
+                    }),
+                });
             },
 
             // Export to JSON
             exportToJson: () => {
                 const { nodes, edges } = get();
+                const treeEdges = getTreeEdges(edges);
 
                 const childrenMap = new Map<string, string[]>();
 
-                edges.forEach((e) => {
+                treeEdges.forEach((e) => {
                     if (!childrenMap.has(e.source)) {
                         childrenMap.set(e.source, []);
                     }
@@ -478,16 +1560,23 @@ export const useGraphStore = create<GraphStore>()(
                         topic: n.data.topic,
                         parentId: n.data.parentId,
                         isAnchor: n.data.isAnchor,
+                        notes: n.data.notes,
                         children: childrenMap.get(n.id) || [],
                     })),
-                    edges: edges.map((e) => ({
+                    edges: treeEdges.map((e) => ({
+                        source: e.source,
+                        target: e.target,
+                    })),
+                    related: getCrossLinks(edges).map((e) => ({
                         source: e.source,
                         target: e.target,
+                        label: e.data?.label,
                     })),
                     metadata: {
                         exportedAt: new Date().toISOString(),
                         nodeCount: nodes.length,
-                        edgeCount: edges.length,
+                        edgeCount: treeEdges.length,
+                        relatedCount: edges.length - treeEdges.length,
                     },
                 };
             },
@@ -495,33 +1584,43 @@ export const useGraphStore = create<GraphStore>()(
             // Export to Markdown
             exportToMarkdown: () => {
                 const { nodes, edges } = get();
+                return formatMarkdownOutline(nodes, edges);
+            },
 
-                const childrenMap = new Map<string, string[]>();
-                edges.forEach((e) => {
-                    if (!childrenMap.has(e.source)) {
-                        childrenMap.set(e.source, []);
-                    }
-                    childrenMap.get(e.source)!.push(e.target);
-                });
+            // Export to Mermaid flowchart (tree edges solid, cross-links dotted)
+            exportToMermaid: () => {
+                const { nodes, edges } = get();
 
-                const nodeMap = new Map(nodes.map((n) => [n.id, n]));
-                const lines: string[] = [];
+                // Mermaid ids must be simple words
+                const mermaidIds = new Map<string, string>();
+                nodes.forEach((n, i) => {
+                    mermaidIds.set(n.id, n.id === "root" ? "root" : `n${i}`);
+                });
 
-                const renderNode = (nodeId: string, depth: number) => {
-                    const node = nodeMap.get(nodeId);
-                    if (!node) return;
+                const lines: string[] = ["graph LR"];
 
-                    const indent = "  ".repeat(depth);
-                    const prefix = depth === 0 ? "# " : `${indent}- `;
-                    lines.push(`${prefix}${node.data.label}`);
+                nodes.forEach((n) => {
+                    lines.push(`    ${mermaidIds.get(n.id)}["${encodeMermaidLabel(n.data.label)}"]`);
+                });
 
-                    const children = childrenMap.get(nodeId) || [];
-                    children.forEach((childId) =>
-                        renderNode(childId, depth + 1),
-                    );
-                };
+                getTreeEdges(edges).forEach((e) => {
+                    const source = mermaidIds.get(e.source);
+                    const target = mermaidIds.get(e.target);
+                    if (source && target) {
+                        lines.push(`    ${source} --> ${target}`);
+                    }
+                });
 
-                renderNode("root", 0);
+                getCrossLinks(edges).forEach((e) => {
+                    const source = mermaidIds.get(e.source);
+                    const target = mermaidIds.get(e.target);
+                    if (source && target) {
+                        const label = e.data?.label
+                            ? `|"${encodeMermaidLabel(e.data.label)}"|`
+                            : "";
+                        lines.push(`    ${source} -.->${label} ${target}`);
+                    }
+                });
 
                 return lines.join("\n");
             },
@@ -554,7 +1653,8 @@ export const useGraphStore = create<GraphStore>()(
 
             // Sync current state to project store
             syncToProject: () => {
-                const { nodes, edges, colorIndex } = get();
+                const { colorIndex } = get();
+                const { nodes, edges } = withoutPending(get().nodes, get().edges);
                 // Dynamic import to avoid circular dependency
                 import('./projectStore').then(({ useProjectStore }) => {
                     useProjectStore.getState().syncActiveProjectData({
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { BrainstormNode, BrainstormEdge, Project } from '../types';
+import { installMemoryLocalStorage } from '../utils/testUtils';
+
+// Without IndexedDB the store persists to localStorage
+installMemoryLocalStorage();
+
+// ELK needs a Web Worker, which Bun doesn't have
+vi.mock('../utils/layout', () => ({
+  getLayoutedElements: async (nodes: BrainstormNode[], edges: BrainstormEdge[]) => ({ nodes, edges }),
+}));
+
+const { useProjectStore } = await import('./projectStore');
+const { useGraphStore } = await import('./graphStore');
+
+const server = { projects: [] as Project[], saved: [] as string[] };
+
+// Stand-in for the project endpoints of the server
+function stubProjectApi() {
+  vi.spyOn(globalThis, 'fetch').mockImplementation(async (input: RequestInfo | URL, init?: RequestInit) => {
+    if (String(input) === '/api/projects') {
+      return Response.json({ projects: server.projects, deleted: [] });
+    }
+    if (init?.method === 'PUT') {
+      const project: Project = JSON.parse(String(init.body));
+      server.saved.push(project.id);
+      return Response.json({ saved: true, project });
+    }
+    return new Response(null, { status: 404 });
+  });
+}
+
+const project = (id: string, label: string, modifiedAt: number): Project => ({
+  id,
+  name: label,
+  color: '#636ef1',
+  createdAt: 0,
+  modifiedAt,
+  contentHash: '',
+  data: {
+    nodes: [{ id: 'root', type: 'anchor', position: { x: 0, y: 0 }, data: { label, createdAt: 0 } }],
+    edges: [],
+    colorIndex: 0,
+  },
+});
+
+describe('project sync', () => {
+  beforeEach(() => {
+    server.projects = [];
+    server.saved = [];
+    stubProjectApi();
+  });
+
+  it('should not let opening a stale local copy replace a newer server copy', async () => {
+    useProjectStore.setState({
+      projects: { a: project('a', 'Old', 1000), b: project('b', 'Other', 1000) },
+      activeProjectId: 'b',
+      pendingDeletes: {},
+    });
+    server.projects = [project('a', 'New', 2000)];
+
+    useProjectStore.getState().switchProject('a');
+    const opened = useProjectStore.getState().projects.a!;
+    expect(opened.modifiedAt).toBe(1000);
+    expect(opened.lastOpenedAt).toBeGreaterThan(2000);
+
+    await useProjectStore.getState().syncWithServer();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    const synced = useProjectStore.getState().projects.a!;
+    expect(synced.data.nodes[0]!.data.label).toBe('New');
+    expect(synced.modifiedAt).toBe(2000);
+    expect(synced.lastOpenedAt).toBe(opened.lastOpenedAt);
+    expect(server.saved).toEqual(['b']);
+    expect(useGraphStore.getState().nodes[0]!.data.label).toBe('New');
+  });
+});
+
+describe('project export', () => {
+  it('should keep node notes through export and import', async () => {
+    const withNotes = project('a', 'Idle Game', 1000);
+    withNotes.data.nodes[0]!.data.notes = 'Core loop:\n\n- mine\n- sell';
+    useProjectStore.setState({ projects: { a: withNotes }, activeProjectId: 'a' });
+
+    const single = useProjectStore.getState().exportProject('a') as { nodes: Project['data']['nodes'] };
+    const bundle = useProjectStore.getState().exportAllProjects() as { projects: Array<{ data: Project['data'] }> };
+    expect(bundle.projects[0]!.data.nodes[0]!.data.notes).toBe('Core loop:\n\n- mine\n- sell');
+
+    const result = await useProjectStore.getState().importProject(JSON.stringify(single));
+    expect(result.success).toBe(true);
+    const imported = useProjectStore.getState().projects[result.newProjectId!]!;
+    expect(imported.data.nodes[0]!.data.notes).toBe('Core loop:\n\n- mine\n- sell');
+  });
+});
@@ -1,14 +1,28 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { Project, ImportResult, BrainstormNode, BrainstormEdge } from '../types';
+import type { Project, ImportResult, BrainstormNode, BrainstormEdge, ImportedGraph, ClusteringSettings } from '../types';
 import {
   generateProjectId,
   generateContentHash,
-  getStorageSize,
-  STORAGE_WARNING_THRESHOLD,
-  STORAGE_MAX_THRESHOLD,
+  getLastUsedAt,
+  STORAGE_WARNING_RATIO,
+  STORAGE_MAX_RATIO,
   MAX_PROJECTS,
 } from '../utils/projectUtils';
+import {
+  fetchServerProjects,
+  saveServerProject,
+  deleteServerProject,
+  getBatchEmbeddings,
+  getEmbeddingModelFor,
+  getSharedEmbeddingModel,
+} from '../utils/api';
+import { createTreeEdge, createCrossLinkEdge } from '../utils/edges';
+import { getEmbeddingText } from '../utils/semantic';
+import { isMermaid, parseMermaid } from '../utils/mermaid';
+import { isMarkdownOutline, parseMarkdownOutline } from '../utils/markdown';
+import { createProjectStorage, getStorageEstimate } from '../utils/projectStorage';
+import { useSettingsStore } from './settingsStore';
 
 // Topic colors (same as in graphStore)
 const TOPIC_COLORS = [
@@ -24,11 +38,16 @@ const TOPIC_COLORS = [
   '#6366f1', // Indigo
 ];
 
+export type ServerSyncStatus = 'idle' | 'syncing' | 'synced' | 'offline';
+
 interface ProjectStore {
   // State
   activeProjectId: string | null;
   projects: Record<string, Project>;
   isSidebarOpen: boolean;
+  serverSyncStatus: ServerSyncStatus;
+  pendingDeletes: Record<string, number>; // Deleted here but not yet on the server (id -> deletedAt)
+  storageEstimate: { usage: number; quota: number } | null;
 
   // Modal state
   modalState: {
@@ -43,12 +62,15 @@ interface ProjectStore {
   switchProject: (id: string) => void;
   renameProject: (id: string, name: string) => void;
   updateProjectColor: (id: string, color: string) => void;
-  importProject: (jsonData: string) => Promise<ImportResult>;
+  setProjectClustering: (id: string, clustering: Partial<ClusteringSettings> | undefined) => void;
+  importProject: (data: string) => Promise<ImportResult>;
   exportProject: (id: string) => object | null;
   exportAllProjects: () => object;
   syncActiveProjectData: (data: { nodes: BrainstormNode[]; edges: BrainstormEdge[]; colorIndex: number }) => void;
   toggleSidebar: () => void;
   setModalState: (state: ProjectStore['modalState']) => void;
+  syncWithServer: () => Promise<void>;
+  refreshStorageEstimate: () => Promise<void>;
 
   // Getters
   getActiveProject: () => Project | null;
@@ -74,6 +96,226 @@ const initialNodes: BrainstormNode[] = [
 
 const initialEdges: BrainstormEdge[] = [];
 
+// Delay before pushing a changed project to the server (batches rapid edits)
+const SERVER_SAVE_DELAY = 1000;
+const pendingServerSaves = new Map<string, ReturnType<typeof setTimeout>>();
+
+/**
+ * Auto-organize settings for the active project: the global ones with its override applied
+ */
+export function getActiveClusteringSettings(): ClusteringSettings {
+  const { activeProjectId, projects } = useProjectStore.getState();
+  const override = activeProjectId ? projects[activeProjectId]?.data.clustering : undefined;
+  return { ...useSettingsStore.getState().clustering, ...override };
+}
+
+/**
+ * Load a project's data into the graph store (used when the server copy replaces the active project)
+ */
+function loadProjectIntoGraph(project: Project) {
+  // Dynamic import to avoid circular dependency
+  import('./graphStore').then(({ useGraphStore }) => {
+    const graph = useGraphStore.getState();
+    graph.setState({
+      nodes: JSON.parse(JSON.stringify(project.data.nodes)),
+      edges: JSON.parse(JSON.stringify(project.data.edges)),
+      colorIndex: project.data.colorIndex,
+      selectedNodeId: 'root',
+    });
+    graph.clearHistory();
+  });
+}
+
+/**
+ * A server copy with the fields that only exist in this browser carried over from the local one
+ */
+function withLocalFields(remote: Project, local: Project | undefined): Project {
+  return local?.lastOpenedAt !== undefined ? { ...remote, lastOpenedAt: local.lastOpenedAt } : remote;
+}
+
+/**
+ * Push a project to the server now. If the server holds a newer copy, adopt it locally.
+ */
+async function pushProjectToServer(id: string): Promise<void> {
+  const project = useProjectStore.getState().projects[id];
+  if (!project) return;
+
+  try {
+    const result = await saveServerProject(project);
+
+    // Deleted elsewhere after this copy was last changed: syncing drops it here too
+    if (!result.saved && result.deletedAt !== undefined) {
+      await useProjectStore.getState().syncWithServer();
+      return;
+    }
+
+    const serverCopy = result.project;
+    if (!result.saved && serverCopy) {
+      useProjectStore.setState((state) => ({
+        projects: { ...state.projects, [id]: withLocalFields(serverCopy, state.projects[id]) },
+      }));
+      if (useProjectStore.getState().activeProjectId === id) {
+        loadProjectIntoGraph(serverCopy);
+      }
+    }
+
+    useProjectStore.setState({ serverSyncStatus: 'synced' });
+  } catch (error) {
+    console.warn('Project server sync failed:', error);
+    useProjectStore.setState({ serverSyncStatus: 'offline' });
+  }
+}
+
+/**
+ * Schedule a debounced push of a project to the server
+ */
+function scheduleServerSave(id: string) {
+  const pending = pendingServerSaves.get(id);
+  if (pending) clearTimeout(pending);
+
+  pendingServerSaves.set(
+    id,
+    setTimeout(() => {
+      pendingServerSaves.delete(id);
+      pushProjectToServer(id);
+    }, SERVER_SAVE_DELAY)
+  );
+}
+
+/**
+ * Delete a project on the server, cancelling any pending save for it.
+ * A local tombstone stays until the server confirms, so a sync can't bring the project back.
+ */
+function removeProjectFromServer(id: string) {
+  const pending = pendingServerSaves.get(id);
+  if (pending) {
+    clearTimeout(pending);
+    pendingServerSaves.delete(id);
+  }
+
+  useProjectStore.setState((state) => ({
+    pendingDeletes: { ...state.pendingDeletes, [id]: state.pendingDeletes[id] ?? Date.now() },
+  }));
+  return deleteServerProject(id).then(
+    () => {
+      useProjectStore.setState((state) => {
+        const { [id]: _done, ...pendingDeletes } = state.pendingDeletes;
+        return { pendingDeletes };
+      });
+    },
+    (error) => {
+      console.warn('Project server delete failed:', error);
+      useProjectStore.setState({ serverSyncStatus: 'offline' });
+    }
+  );
+}
+
+/**
+ * Turn an imported outline (Mermaid, Markdown) into project data.
+ * A single top-level node becomes the root (otherwise a new root is added),
+ * its children become topic anchors and deeper nodes inherit their anchor's color and topic.
+ */
+async function buildImportedProjectData(
+  imported: ImportedGraph,
+  fallbackRootLabel: string
+): Promise<{ nodes: BrainstormNode[]; edges: BrainstormEdge[]; colorIndex: number; projectName: string }> {
+  const treeEdges = imported.edges.filter((e) => e.kind === 'tree');
+  const hasParent = new Set(treeEdges.map((e) => e.target));
+  const topLevel = imported.nodes.filter((n) => !hasParent.has(n.id));
+
+  // Map imported ids to graph ids
+  const ids = new Map<string, string>();
+  imported.nodes.forEach((n, i) => {
+    ids.set(n.id, `n-${Date.now()}-${i}-${Math.random().toString(36).slice(2, 7)}`);
+  });
+
+  let rootLabel = fallbackRootLabel;
+  const rootChildren: string[] = [];
+  if (topLevel.length === 1) {
+    ids.set(topLevel[0]!.id, 'root');
+    rootLabel = topLevel[0]!.label;
+  } else {
+    topLevel.forEach((n) => rootChildren.push(n.id));
+  }
+
+  const childrenMap = new Map<string, string[]>();
+  childrenMap.set('root', rootChildren.map((id) => ids.get(id)!));
+  treeEdges.forEach((e) => {
+    const source = ids.get(e.source)!;
+    if (!childrenMap.has(source)) childrenMap.set(source, []);
+    childrenMap.get(source)!.push(ids.get(e.target)!);
+  });
+
+  const labels = new Map(imported.nodes.map((n) => [ids.get(n.id)!, n.label]));
+  const notes = new Map(imported.nodes.map((n) => [ids.get(n.id)!, n.notes]));
+  const nodes: BrainstormNode[] = [
+    {
+      id: 'root',
+      type: 'anchor',
+      position: { x: 0, y: 0 },
+      data: {
+        label: rootLabel,
+        topic: 'Main',
+        color: '#636ef1',
+        isAnchor: true,
+        createdAt: Date.now(),
+        ...(notes.get('root') && { notes: notes.get('root') }),
+      },
+    },
+  ];
+  const edges: BrainstormEdge[] = [];
+  let colorIndex = 0;
+
+  // Walk the tree: depth 1 are anchors with fresh colors, deeper nodes inherit
+  const visit = (parentId: string, color: string, topic: string, depth: number) => {
+    for (const childId of childrenMap.get(parentId) || []) {
+      const label = labels.get(childId) || '';
+      const isAnchor = depth === 1;
+      const childColor = isAnchor ? TOPIC_COLORS[colorIndex++ % TOPIC_COLORS.length]! : color;
+      const childTopic = isAnchor ? label : topic;
+
+      nodes.push({
+        id: childId,
+        type: isAnchor ? 'anchor' : 'satellite',
+        position: { x: 0, y: 0 },
+        data: {
+          label,
+          topic: childTopic,
+          color: childColor,
+          parentId,
+          isAnchor,
+          createdAt: Date.now(),
+          ...(notes.get(childId) && { notes: notes.get(childId) }),
+        },
+      });
+      edges.push(createTreeEdge(parentId, childId, childColor, isAnchor));
+      visit(childId, childColor, childTopic, depth + 1);
+    }
+  };
+  visit('root', '#636ef1', 'Main', 1);
+
+  imported.edges
+    .filter((e) => e.kind === 'crosslink')
+    .forEach((e) => edges.push(createCrossLinkEdge(ids.get(e.source)!, ids.get(e.target)!, e.label)));
+
+  // Embed all labels in one batch so auto-organize works on the imported graph
+  const satellites = nodes.filter((n) => n.id !== 'root');
+  try {
+    const embeddings = await getBatchEmbeddings(satellites.map((n) => getEmbeddingText(n.data)));
+    satellites.forEach((n, i) => {
+      const result = embeddings[i];
+      if (result) {
+        n.data.vector = result.embedding;
+        n.data.embeddingModel = getEmbeddingModelFor(result);
+      }
+    });
+  } catch (error) {
+    console.warn('Failed to embed imported nodes:', error);
+  }
+
+  return { nodes, edges, colorIndex, projectName: rootLabel };
+}
+
 /**
  * Migrate from legacy storage to new project system
  */
@@ -126,6 +368,9 @@ export const useProjectStore = create<ProjectStore>()(
       activeProjectId: null,
       projects: {},
       isSidebarOpen: true,
+      serverSyncStatus: 'idle',
+      pendingDeletes: {},
+      storageEstimate: null,
       modalState: { type: null },
 
       // Create a new project
@@ -137,9 +382,9 @@ export const useProjectStore = create<ProjectStore>()(
           throw new Error(`Maximum ${MAX_PROJECTS} projects reached. Please delete some projects.`);
         }
 
-        // Check storage size
-        const storageSize = getStorageSize();
-        if (storageSize > STORAGE_MAX_THRESHOLD) {
+        // Check storage quota
+        const { storageEstimate } = get();
+        if (storageEstimate && storageEstimate.usage > storageEstimate.quota * STORAGE_MAX_RATIO) {
           throw new Error('Storage limit reached. Please export and delete old projects.');
         }
 
@@ -170,6 +415,7 @@ export const useProjectStore = create<ProjectStore>()(
         set({
           projects: { ...projects, [projectId]: newProject },
         });
+        scheduleServerSave(projectId);
 
         return projectId;
       },
@@ -182,9 +428,9 @@ export const useProjectStore = create<ProjectStore>()(
         if (id === activeProjectId) {
           const remainingIds = Object.keys(projects).filter((k) => k !== id);
 
-          // Sort by modifiedAt descending
+          // Most recently used first
           const sortedIds = remainingIds.sort(
-            (a, b) => projects[b].modifiedAt - projects[a].modifiedAt
+            (a, b) => getLastUsedAt(projects[b]!) - getLastUsedAt(projects[a]!)
           );
 
           if (sortedIds.length > 0) {
@@ -199,6 +445,7 @@ export const useProjectStore = create<ProjectStore>()(
         const newProjects = { ...projects };
         delete newProjects[id];
         set({ projects: newProjects });
+        removeProjectFromServer(id);
 
         // If no projects remain, create a new default project
         if (Object.keys(newProjects).length === 0) {
@@ -217,14 +464,15 @@ export const useProjectStore = create<ProjectStore>()(
           return;
         }
 
-        // This will be handled by graphStore to load the data and clear history
+        // This will be handled by graphStore to load the data and clear history.
+        // Opening isn't an edit: modifiedAt decides which copy wins a sync, so it stays put.
         set({
           activeProjectId: id,
           projects: {
             ...projects,
             [id]: {
               ...project,
-              modifiedAt: Date.now(),
+              lastOpenedAt: Date.now(),
             },
           },
         });
@@ -247,6 +495,7 @@ export const useProjectStore = create<ProjectStore>()(
             },
           },
         });
+        scheduleServerSave(id);
       },
 
       // Update project color
@@ -266,12 +515,48 @@ export const useProjectStore = create<ProjectStore>()(
             },
           },
         });
+        scheduleServerSave(id);
       },
 
-      // Import a project from JSON
-      importProject: async (jsonData: string): Promise<ImportResult> => {
+      // Override (or with undefined, stop overriding) the auto-organize settings for one project
+      setProjectClustering: (id: string, clustering: Partial<ClusteringSettings> | undefined) => {
+        const { projects } = get();
+        const project = projects[id];
+
+        if (!project) return;
+
+        set({
+          projects: {
+            ...projects,
+            [id]: {
+              ...project,
+              modifiedAt: Date.now(),
+              data: { ...project.data, clustering },
+            },
+          },
+        });
+        scheduleServerSave(id);
+      },
+
+      // Import a project from JSON, Mermaid or a Markdown outline
+      importProject: async (data: string): Promise<ImportResult> => {
         try {
-          const parsed = JSON.parse(jsonData);
+          let parsed;
+          if (isMermaid(data)) {
+            const imported = parseMermaid(data);
+            if (imported.nodes.length === 0) {
+              return { success: false, error: 'No nodes found in Mermaid diagram', isDuplicate: false };
+            }
+            parsed = await buildImportedProjectData(imported, 'Mermaid import');
+          } else if (!/^\s*[{[]/.test(data) && isMarkdownOutline(data)) {
+            const imported = parseMarkdownOutline(data);
+            if (imported.nodes.length === 0) {
+              return { success: false, error: 'No items found in Markdown outline', isDuplicate: false };
+            }
+            parsed = await buildImportedProjectData(imported, 'Markdown import');
+          } else {
+            parsed = JSON.parse(data);
+          }
 
           // Validate structure
           if (!parsed.nodes || !Array.isArray(parsed.nodes)) {
@@ -286,6 +571,9 @@ export const useProjectStore = create<ProjectStore>()(
             if (!node.id || !node.data?.label) {
               return { success: false, error: 'Invalid node structure', isDuplicate: false };
             }
+            if (node.data.notes !== undefined && typeof node.data.notes !== 'string') {
+              return { success: false, error: 'Invalid node notes', isDuplicate: false };
+            }
           }
 
           // Validate edges reference existing nodes
@@ -324,16 +612,18 @@ export const useProjectStore = create<ProjectStore>()(
             createdAt: Date.now(),
             modifiedAt: Date.now(),
             contentHash: hash,
+            embeddingModel: getSharedEmbeddingModel(parsed.nodes),
             data: {
               nodes: parsed.nodes,
               edges: parsed.edges,
-              colorIndex: 0,
+              colorIndex: parsed.colorIndex || 0,
             },
           };
 
           set((state) => ({
             projects: { ...state.projects, [projectId]: newProject },
           }));
+          scheduleServerSave(projectId);
 
           return {
             success: true,
@@ -372,6 +662,7 @@ export const useProjectStore = create<ProjectStore>()(
               parentId: n.data.parentId,
               isAnchor: n.data.isAnchor,
               createdAt: n.data.createdAt,
+              notes: n.data.notes,
             },
           })),
           edges: project.data.edges.map((e) => ({
@@ -381,6 +672,7 @@ export const useProjectStore = create<ProjectStore>()(
             type: e.type,
             style: e.style,
             animated: e.animated,
+            data: e.data,
           })),
           metadata: {
             exportedAt: new Date().toISOString(),
@@ -418,6 +710,7 @@ export const useProjectStore = create<ProjectStore>()(
                   parentId: n.data.parentId,
                   isAnchor: n.data.isAnchor,
                   createdAt: n.data.createdAt,
+                  notes: n.data.notes,
                 },
               })),
               edges: p.data.edges.map((e) => ({
@@ -427,6 +720,7 @@ export const useProjectStore = create<ProjectStore>()(
                 type: e.type,
                 style: e.style,
                 animated: e.animated,
+                data: e.data,
               })),
             },
           })),
@@ -443,7 +737,8 @@ export const useProjectStore = create<ProjectStore>()(
         const updatedProject = {
           ...projects[activeProjectId],
           modifiedAt: Date.now(),
-          data,
+          embeddingModel: getSharedEmbeddingModel(data.nodes),
+          data: { ...projects[activeProjectId].data, ...data },
         };
 
         // Compute new hash asynchronously
@@ -461,6 +756,80 @@ export const useProjectStore = create<ProjectStore>()(
             [activeProjectId]: updatedProject,
           },
         });
+        scheduleServerSave(activeProjectId);
+      },
+
+      // Merge local projects with the server copy (newest modifiedAt wins)
+      syncWithServer: async () => {
+        set({ serverSyncStatus: 'syncing' });
+
+        // Retry deletions made while offline before looking at the server's copies
+        await Promise.all(Object.keys(get().pendingDeletes).map((id) => removeProjectFromServer(id)));
+
+        let remote;
+        try {
+          remote = await fetchServerProjects();
+        } catch (error) {
+          console.warn('Project server unavailable, working locally:', error);
+          set({ serverSyncStatus: 'offline' });
+          return;
+        }
+
+        const { projects, activeProjectId } = get();
+        const merged = { ...projects };
+        const remoteIds = new Set<string>();
+
+        // Drop projects deleted on another machine
+        for (const { id } of remote.deleted) {
+          remoteIds.add(id);
+          delete merged[id];
+        }
+
+        // Take server copies that are newer than ours (never ones deleted here)
+        const { pendingDeletes } = get();
+        let activeReplaced = false;
+        for (const project of remote.projects) {
+          remoteIds.add(project.id);
+          if (pendingDeletes[project.id] !== undefined) continue;
+          const local = merged[project.id];
+          if (!local || project.modifiedAt > local.modifiedAt) {
+            merged[project.id] = withLocalFields(project, local);
+            if (project.id === activeProjectId) activeReplaced = true;
+          }
+        }
+
+        // Push local projects the server doesn't know about or has an older copy of
+        const remoteById = new Map(remote.projects.map((p) => [p.id, p]));
+        const toPush = Object.values(merged)
+          .filter((p) => !remoteIds.has(p.id) || p.modifiedAt > (remoteById.get(p.id)?.modifiedAt ?? 0))
+          .map((p) => p.id);
+
+        // Keep a valid active project
+        let nextActiveId = activeProjectId;
+        if (!nextActiveId || !merged[nextActiveId]) {
+          const sorted = Object.values(merged).sort((a, b) => getLastUsedAt(b) - getLastUsedAt(a));
+          nextActiveId = sorted[0]?.id ?? null;
+          activeReplaced = false; // App loads the new active project on switch
+        }
+
+        set({ projects: merged, activeProjectId: nextActiveId, serverSyncStatus: 'synced' });
+
+        const activeProject = nextActiveId ? merged[nextActiveId] : undefined;
+        if (activeReplaced && activeProject) {
+          loadProjectIntoGraph(activeProject);
+        }
+
+        if (Object.keys(merged).length === 0) {
+          const newProjectId = get().createProject('My First Brainstorm');
+          get().switchProject(newProjectId);
+        }
+
+        await Promise.all(toPush.map((id) => pushProjectToServer(id)));
+      },
+
+      // Read the browser's storage usage and quota
+      refreshStorageEstimate: async () => {
+        set({ storageEstimate: await getStorageEstimate() });
       },
 
       // Toggle sidebar
@@ -492,10 +861,12 @@ export const useProjectStore = create<ProjectStore>()(
     }),
     {
       name: 'brainstormy-projects-v2',
+      storage: createProjectStorage(),
       partialize: (state) => ({
         activeProjectId: state.activeProjectId,
         projects: state.projects,
         isSidebarOpen: state.isSidebarOpen,
+        pendingDeletes: state.pendingDeletes,
       }),
       onRehydrateStorage: () => (state) => {
         if (!state) return;
@@ -540,13 +911,13 @@ export const useProjectStore = create<ProjectStore>()(
 
         // Ensure active project is valid
         if (!state.activeProjectId || !state.projects[state.activeProjectId]) {
-          // Select the most recently modified project
+          // Select the most recently used project
           const projectIds = Object.keys(state.projects);
           if (projectIds.length > 0) {
             const mostRecentProjectId = projectIds.reduce((latestId, currentId) => {
               const latestProject = state.projects[latestId];
               const currentProject = state.projects[currentId];
-              return currentProject.modifiedAt > latestProject.modifiedAt
+              return getLastUsedAt(currentProject!) > getLastUsedAt(latestProject!)
                 ? currentId
                 : latestId;
             });
@@ -554,13 +925,15 @@ export const useProjectStore = create<ProjectStore>()(
           }
         }
 
-        // Check storage size and warn if needed
-        const storageSize = getStorageSize();
-        if (storageSize > STORAGE_WARNING_THRESHOLD) {
-          console.warn(
-            `localStorage is getting full (${(storageSize / 1024 / 1024).toFixed(2)}MB). Consider exporting and deleting old projects.`
-          );
-        }
+        // Check storage quota and warn if needed
+        useProjectStore.getState().refreshStorageEstimate().then(() => {
+          const { storageEstimate } = useProjectStore.getState();
+          if (storageEstimate && storageEstimate.usage > storageEstimate.quota * STORAGE_WARNING_RATIO) {
+            console.warn(
+              `Storage is getting full (${Math.round((storageEstimate.usage / storageEstimate.quota) * 100)}% of quota). Consider exporting and deleting old projects.`
+            );
+          }
+        });
       },
     }
   )
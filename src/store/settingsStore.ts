@@ -1,6 +1,9 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { LocalModelKey } from '../utils/localEmbeddings';
+import type { LocalModelKey, ModelSource } from '../utils/localEmbeddings';
+import type { ServerProviderInfo } from '../utils/api';
+import type { ClusteringSettings } from '../types';
+import { DEFAULT_CLUSTERING } from '../utils/semantic';
 
 export type EmbeddingProvider = 'server' | 'local';
 
@@ -8,12 +11,20 @@ interface SettingsState {
   // Embedding settings
   embeddingProvider: EmbeddingProvider;
   localModel: LocalModelKey;
+  modelSource: ModelSource;
+
+  // Auto-organize settings (projects can override them)
+  clustering: ClusteringSettings;
 
   // Model loading state (not persisted)
   isModelLoading: boolean;
   modelLoadProgress: number;
   modelLoadStatus: string;
   isModelReady: boolean;
+  modelLoadError: string | null;
+
+  // Provider reported by the server's /api/health (not persisted)
+  serverProvider: ServerProviderInfo | null;
 
   // UI settings
   isSettingsOpen: boolean;
@@ -21,8 +32,13 @@ interface SettingsState {
   // Actions
   setEmbeddingProvider: (provider: EmbeddingProvider) => void;
   setLocalModel: (model: LocalModelKey) => void;
+  setModelSource: (source: ModelSource) => void;
+  setClustering: (update: Partial<ClusteringSettings>) => void;
+  resetClustering: () => void;
   setModelLoadingState: (isLoading: boolean, progress: number, status: string) => void;
   setModelReady: (ready: boolean) => void;
+  setModelLoadError: (error: string | null) => void;
+  setServerProvider: (provider: ServerProviderInfo | null) => void;
   toggleSettings: () => void;
   setSettingsOpen: (open: boolean) => void;
 }
@@ -33,24 +49,33 @@ export const useSettingsStore = create<SettingsState>()(
       // Defaults
       embeddingProvider: 'local',
       localModel: 'all-MiniLM-L6-v2',
+      modelSource: 'hub',
+      clustering: DEFAULT_CLUSTERING,
 
       // Non-persisted state
       isModelLoading: false,
       modelLoadProgress: 0,
       modelLoadStatus: '',
       isModelReady: false,
+      modelLoadError: null,
+      serverProvider: null,
 
       isSettingsOpen: false,
 
       // Actions
       setEmbeddingProvider: (provider) => set({ embeddingProvider: provider }),
       setLocalModel: (model) => set({ localModel: model }),
+      setModelSource: (source) => set({ modelSource: source }),
+      setClustering: (update) => set((state) => ({ clustering: { ...state.clustering, ...update } })),
+      resetClustering: () => set({ clustering: DEFAULT_CLUSTERING }),
       setModelLoadingState: (isLoading, progress, status) => set({
         isModelLoading: isLoading,
         modelLoadProgress: progress,
         modelLoadStatus: status,
       }),
       setModelReady: (ready) => set({ isModelReady: ready }),
+      setModelLoadError: (error) => set({ modelLoadError: error }),
+      setServerProvider: (provider) => set({ serverProvider: provider }),
       toggleSettings: () => set((state) => ({ isSettingsOpen: !state.isSettingsOpen })),
       setSettingsOpen: (open) => set({ isSettingsOpen: open }),
     }),
@@ -59,6 +84,8 @@ export const useSettingsStore = create<SettingsState>()(
       partialize: (state) => ({
         embeddingProvider: state.embeddingProvider,
         localModel: state.localModel,
+        modelSource: state.modelSource,
+        clustering: state.clustering,
       }),
     }
   )
@@ -1,18 +1,72 @@
 import type { Node, Edge } from '@xyflow/react';
 
+// Set on a placeholder node while its idea waits in the add queue
+export interface PendingAdd {
+  parentId?: string; // Requested parent, auto-organize when unset
+  error?: string; // Why embedding or placement failed; cleared on retry
+}
+
+// How auto-organize scores possible parents:
+// hybrid = best leaf vs best cluster head, nearest = direct similarity only,
+// anchor = topics only, centroid = cluster heads by their subtree's centroid
+export type ClusteringStrategy = 'hybrid' | 'nearest' | 'anchor' | 'centroid';
+
+export interface ClusteringSettings {
+  strategy: ClusteringStrategy;
+  threshold: number; // Minimum similarity to attach instead of starting a new topic
+  clusterWeight: number; // Share of cluster fit (vs direct similarity) in a cluster head's score
+}
+
+// Rule findBestParent used: nearest node in small/flat graphs, else best leaf or cluster head
+export type PlacementBranch = 'direct' | 'leaf' | 'cluster';
+
+// Why a node was put where it is, recorded when it was added
+export interface PlacementDecision {
+  mode: 'auto' | 'manual';
+  result: 'attached' | 'new-topic';
+  strategy?: ClusteringStrategy;
+  branch?: PlacementBranch;
+  similarity?: number; // Best score, compared against the threshold
+  threshold?: number;
+  candidates?: Array<{
+    id: string;
+    label: string;
+    similarity: number;
+    directSimilarity: number;
+    clusterSimilarity?: number;
+  }>;
+  revisedTo?: string; // Parent chosen afterwards by the user ('root' = new topic)
+  reorganized?: boolean; // Decided by re-organizing the whole graph rather than when the node was added
+  decidedAt: number;
+}
+
 export interface BrainstormNodeData extends Record<string, unknown> {
   label: string;
   topic?: string;
   color?: string;
   vector?: number[];
+  embeddingModel?: string; // Id of the model that produced `vector`
   parentId?: string;
   isAnchor?: boolean;
+  pending?: PendingAdd;
+  placement?: PlacementDecision;
+  pinned?: boolean; // Re-organize leaves pinned nodes under their parent
+  notes?: string; // Markdown body under the label, embedded along with it
   createdAt: number;
   [key: string]: unknown;
 }
 
 export type BrainstormNode = Node<BrainstormNodeData, 'anchor' | 'satellite'>;
-export type BrainstormEdge = Edge;
+
+// 'tree' edges form the parent/child hierarchy, 'crosslink' edges are extra "related to" links
+export type EdgeKind = 'tree' | 'crosslink';
+
+export interface BrainstormEdgeData extends Record<string, unknown> {
+  kind?: EdgeKind;
+  label?: string;
+}
+
+export type BrainstormEdge = Edge<BrainstormEdgeData>;
 
 export interface GraphState {
   nodes: BrainstormNode[];
@@ -22,6 +76,44 @@ export interface GraphState {
   isCommandPaletteOpen: boolean;
 }
 
+// What kind of children "expand node" asks the LLM for
+export type ExpandStyle = 'subtopics' | 'questions' | 'risks' | 'examples';
+
+export interface ExpandRequest {
+  path: string[]; // Labels from the root down to the node being expanded
+  siblings: string[];
+  children: string[];
+  count: number;
+  style: ExpandStyle;
+}
+
+// Where the focused node sits in the graph, sent with /api/suggest requests
+export interface SuggestionContext {
+  root: string;
+  path: string[]; // Labels from the root's child down to the focused node (empty for the root)
+  topics: string[]; // Anchor labels
+  siblings: string[];
+  children: string[];
+}
+
+// A node and its descendants by label, sent to /api/summarize
+export interface OutlineNode {
+  label: string;
+  children: OutlineNode[];
+}
+
+// Graph edit proposed in a chat answer, applied with existing graph operations
+export type ChatAction =
+  | { type: 'add'; label: string; parentId: string }
+  | { type: 'rename'; nodeId: string; label: string }
+  | { type: 'move'; nodeId: string; parentId: string };
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  actions?: ChatAction[];
+}
+
 export interface EmbeddingResponse {
   embedding: number[];
   text: string;
@@ -33,30 +125,55 @@ export interface ExportData {
     label: string;
     topic?: string;
     parentId?: string;
+    notes?: string;
     children: string[];
   }>;
   edges: Array<{
     source: string;
     target: string;
   }>;
+  related: Array<{
+    source: string;
+    target: string;
+    label?: string;
+  }>;
   metadata: {
     exportedAt: string;
     nodeCount: number;
     edgeCount: number;
+    relatedCount: number;
   };
 }
 
+// Graph parsed from an outline format (Mermaid, Markdown) before it becomes a project
+export interface ImportedGraph {
+  nodes: Array<{
+    id: string;
+    label: string;
+    notes?: string;
+  }>;
+  edges: Array<{
+    source: string;
+    target: string;
+    kind: EdgeKind;
+    label?: string;
+  }>;
+}
+
 export interface Project {
   id: string;
   name: string;
   color: string;
   createdAt: number;
   modifiedAt: number;
+  lastOpenedAt?: number; // When this browser last opened it; local only, sync ignores it
   contentHash: string;
+  embeddingModel?: string; // Model shared by all node vectors, unset when mixed
   data: {
     nodes: BrainstormNode[];
     edges: BrainstormEdge[];
     colorIndex: number;
+    clustering?: Partial<ClusteringSettings>; // Overrides the global settings for this project
   };
 }
 
@@ -1,54 +1,100 @@
 import { useSettingsStore } from '../store/settingsStore';
+import type { Project, BrainstormNode, ChatAction, ChatMessage, ExpandRequest, ExportData, OutlineNode, SuggestionContext } from '../types';
 import {
   getLocalEmbedding,
+  getLocalEmbeddings,
   isModelLoaded,
   loadModel,
   getCurrentModel,
+  getCurrentModelSource,
+  LOCAL_MODELS,
+  type LocalModelKey,
 } from './localEmbeddings';
+import { getCachedEmbeddings, cacheEmbeddings, normalizeEmbeddingText } from './embeddingCache';
 
 const API_BASE = '/api';
 
-// Main embedding function that uses the selected provider
-export async function getEmbedding(text: string): Promise<number[]> {
+// Stored as a node's embeddingModel when its vector is a stand-in from a failed request,
+// so the mismatch check offers to re-embed it
+export const FALLBACK_EMBEDDING_MODEL = 'fallback';
+
+// isFallback marks a vector that didn't come from the active provider (it failed)
+export interface EmbeddingResult {
+  embedding: number[];
+  isFallback: boolean;
+}
+
+// Main embedding function that uses the selected provider, consulting the browser cache first
+export async function getEmbedding(text: string): Promise<EmbeddingResult> {
   const { embeddingProvider, localModel } = useSettingsStore.getState();
+  const normalized = normalizeEmbeddingText(text);
+  const namespace = getEmbeddingCacheNamespace();
+
+  if (namespace) {
+    const [cached] = await getCachedEmbeddings(namespace, [normalized]);
+    if (cached) return { embedding: cached, isFallback: false };
+  }
 
   if (embeddingProvider === 'local') {
-    return getLocalEmbeddingWithFallback(text, localModel);
+    return getLocalEmbeddingWithFallback(normalized, localModel, namespace);
   }
 
-  return getServerEmbedding(text);
+  return getServerEmbedding(normalized, namespace);
+}
+
+// Cache namespace for the active provider + model, or null while the server's provider is unknown
+function getEmbeddingCacheNamespace(): string | null {
+  const { embeddingProvider, localModel, serverProvider } = useSettingsStore.getState();
+
+  if (embeddingProvider === 'local') {
+    return `local|${LOCAL_MODELS[localModel].id}`;
+  }
+  if (!serverProvider) return null;
+
+  const { provider, baseUrl, embeddingModel, configuredDimensions } = serverProvider;
+  return `server|${provider}|${baseUrl || ''}|${embeddingModel}|${configuredDimensions || ''}`;
+}
+
+// Load the selected local model if it isn't the one in the worker yet
+async function ensureLocalModel(modelKey: LocalModelKey): Promise<void> {
+  const { modelSource, setModelLoadingState, setModelReady, setModelLoadError } = useSettingsStore.getState();
+  if (isModelLoaded() && getCurrentModel() === modelKey && getCurrentModelSource() === modelSource) return;
+
+  setModelLoadingState(true, 0, 'Loading model...');
+
+  try {
+    await loadModel(modelKey, modelSource);
+    setModelReady(true);
+    setModelLoadError(null);
+  } catch (error) {
+    setModelLoadError(error instanceof Error ? error.message : String(error));
+    throw error;
+  } finally {
+    setModelLoadingState(false, 100, 'Ready');
+  }
 }
 
 // Get embedding from local model
 async function getLocalEmbeddingWithFallback(
   text: string,
-  modelKey: string
-): Promise<number[]> {
+  modelKey: LocalModelKey,
+  namespace: string | null
+): Promise<EmbeddingResult> {
   try {
-    // Check if the right model is loaded
-    if (!isModelLoaded() || getCurrentModel() !== modelKey) {
-      // Model not loaded or wrong model - load it
-      const { setModelLoadingState, setModelReady } = useSettingsStore.getState();
-      setModelLoadingState(true, 0, 'Loading model...');
-
-      try {
-        await loadModel(modelKey as Parameters<typeof loadModel>[0]);
-        setModelReady(true);
-      } finally {
-        setModelLoadingState(false, 100, 'Ready');
-      }
-    }
-
-    return await getLocalEmbedding(text);
+    await ensureLocalModel(modelKey);
+    const embedding = await getLocalEmbedding(text);
+    if (namespace) void cacheEmbeddings(namespace, [{ text, embedding }]);
+    return { embedding, isFallback: false };
   } catch (error) {
     console.error('Local embedding error:', error);
-    // Fall back to server
-    return getServerEmbedding(text);
+    // Fall back to server (another model, so the result isn't cached under ours)
+    const { embedding } = await getServerEmbedding(text, null);
+    return { embedding, isFallback: true };
   }
 }
 
 // Get embedding from server
-async function getServerEmbedding(text: string): Promise<number[]> {
+async function getServerEmbedding(text: string, namespace: string | null): Promise<EmbeddingResult> {
   try {
     const response = await fetch(`${API_BASE}/embedding`, {
       method: 'POST',
@@ -61,28 +107,61 @@ async function getServerEmbedding(text: string): Promise<number[]> {
     }
 
     const data = await response.json();
-    return data.embedding;
+    if (!Array.isArray(data.embedding) || data.embedding.length === 0) {
+      throw new Error('Server returned no embedding');
+    }
+
+    // Mock vectors the server fell back to must not outlive the failure in the cache
+    if (namespace && !data.fallback) void cacheEmbeddings(namespace, [{ text, embedding: data.embedding }]);
+    return { embedding: data.embedding, isFallback: !!data.fallback };
   } catch (error) {
     console.error('Server embedding API error:', error);
-    return generateFallbackEmbedding(text);
+    return { embedding: generateFallbackEmbedding(text), isFallback: true };
   }
 }
 
-// Batch embeddings
+// Batch embeddings; only the texts missing from the browser cache are embedded
 export async function getBatchEmbeddings(
   texts: string[]
-): Promise<Array<{ embedding: number[]; text: string }>> {
-  const { embeddingProvider } = useSettingsStore.getState();
+): Promise<Array<EmbeddingResult & { text: string }>> {
+  const normalized = texts.map(normalizeEmbeddingText);
+  const namespace = getEmbeddingCacheNamespace();
+  const cached = namespace
+    ? await getCachedEmbeddings(namespace, normalized)
+    : normalized.map(() => undefined);
+
+  const missing = [...new Set(normalized.filter((_, i) => !cached[i]))];
+  const fresh = new Map<string, number[]>();
+  let isFallback = false;
+  if (missing.length > 0) {
+    const results = await embedBatch(missing);
+    results.embeddings.forEach((embedding, i) => fresh.set(missing[i]!, embedding));
+    isFallback = results.isFallback;
+    if (namespace && !results.isFallback) {
+      void cacheEmbeddings(namespace, missing.map((text, i) => ({ text, embedding: results.embeddings[i]! })));
+    }
+  }
+
+  return normalized.map((text, i) => {
+    const hit = cached[i];
+    return hit ? { embedding: hit, isFallback: false, text } : { embedding: fresh.get(text)!, isFallback, text };
+  });
+}
+
+// Embed texts with the active provider
+async function embedBatch(texts: string[]): Promise<{ embeddings: number[][]; isFallback: boolean }> {
+  const { embeddingProvider, localModel } = useSettingsStore.getState();
 
   if (embeddingProvider === 'local') {
-    // Process locally one by one
-    const results: Array<{ embedding: number[]; text: string }> = [];
-    for (const text of texts) {
-      const embedding = await getEmbedding(text);
-      results.push({ embedding, text });
+    try {
+      await ensureLocalModel(localModel);
+      return { embeddings: await getLocalEmbeddings(texts), isFallback: false };
+    } catch (error) {
+      // Fall back to the server batch below
+      console.error('Local batch embedding error:', error);
     }
-    return results;
   }
+  const isFallback = embeddingProvider === 'local';
 
   // Server batch
   try {
@@ -96,14 +175,11 @@ export async function getBatchEmbeddings(
       throw new Error('Failed to get batch embeddings');
     }
 
-    const data = await response.json();
-    return data.embeddings;
+    const data: { embeddings: Array<{ embedding: number[] }> } = await response.json();
+    return { embeddings: data.embeddings.map((e) => e.embedding), isFallback };
   } catch (error) {
     console.error('Batch embedding API error:', error);
-    return texts.map((text) => ({
-      embedding: generateFallbackEmbedding(text),
-      text,
-    }));
+    return { embeddings: texts.map(generateFallbackEmbedding), isFallback: true };
   }
 }
 
@@ -111,7 +187,7 @@ export async function getBatchEmbeddings(
 export async function getSuggestions(
   focusedNode: string,
   existingNodes: Array<{ label: string }>,
-  context?: string
+  context?: SuggestionContext
 ): Promise<string[]> {
   try {
     const response = await fetch(`${API_BASE}/suggest`, {
@@ -132,6 +208,244 @@ export async function getSuggestions(
   }
 }
 
+/**
+ * Stream children for a node from /api/expand, calling onSuggestion as each one arrives.
+ * Resolves when the stream ends; rejects on server errors or when `signal` aborts.
+ */
+export async function streamExpansions(
+  request: ExpandRequest,
+  onSuggestion: (label: string) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const response = await fetch(`${API_BASE}/expand`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error('Failed to expand node');
+  }
+
+  // EventSource can't POST, so parse the event stream by hand
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    buffer += value;
+
+    let end: number;
+    while ((end = buffer.indexOf('\n\n')) !== -1) {
+      const message = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+
+      const event = message.match(/^event: (.*)$/m)?.[1];
+      const data = JSON.parse(message.match(/^data: (.*)$/m)?.[1] ?? '{}');
+      if (event === 'suggestion') onSuggestion(data.label);
+      if (event === 'error') throw new Error(data.error);
+    }
+  }
+}
+
+// LLM topic title for a cluster of labels, null when no LLM is configured or the call fails
+export async function getTopicName(labels: string[]): Promise<string | null> {
+  try {
+    const response = await fetch(`${API_BASE}/topic-name`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ labels }),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to name topic');
+    }
+
+    const data = await response.json();
+    return data.topic || null;
+  } catch (error) {
+    console.error('Topic name API error:', error);
+    return null;
+  }
+}
+
+// Written summary of a subtree; `fallback` when the server used its template instead of an LLM
+export async function getSummary(outline: OutlineNode): Promise<{ summary: string; fallback: boolean }> {
+  const response = await fetch(`${API_BASE}/summarize`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ outline }),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to summarize');
+  }
+
+  const data = await response.json();
+  return { summary: data.summary ?? '', fallback: !!data.fallback };
+}
+
+// Reply to a chat about the graph; unlike the helpers above this throws, so the panel can show the failure
+export async function sendChat(
+  messages: ChatMessage[],
+  graph: ExportData
+): Promise<{ reply: string; actions: ChatAction[] }> {
+  const response = await fetch(`${API_BASE}/chat`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ messages: messages.map(({ role, content }) => ({ role, content })), graph }),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to get a chat reply');
+  }
+
+  const data = await response.json();
+  return { reply: data.reply ?? '', actions: data.actions ?? [] };
+}
+
+// Projects stored on the server
+export interface ServerProjectList {
+  projects: Project[];
+  deleted: Array<{ id: string; deletedAt: number }>;
+}
+
+export async function fetchServerProjects(): Promise<ServerProjectList> {
+  const response = await fetch(`${API_BASE}/projects`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch projects');
+  }
+
+  return response.json();
+}
+
+// Save a project on the server. Returns the server copy when it is newer than ours,
+// or the deletion time when the project was deleted after our copy was last modified.
+export async function saveServerProject(
+  project: Project
+): Promise<{ saved: boolean; project?: Project; deletedAt?: number }> {
+  const response = await fetch(`${API_BASE}/projects/${encodeURIComponent(project.id)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(project),
+  });
+
+  // 409 means the server has a newer copy or a newer deletion, which is returned in the body
+  if (!response.ok && response.status !== 409) {
+    throw new Error('Failed to save project');
+  }
+
+  return response.json();
+}
+
+export async function deleteServerProject(id: string): Promise<void> {
+  const response = await fetch(`${API_BASE}/projects/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+  });
+
+  // 404 is fine: the project was never synced or is already gone
+  if (!response.ok && response.status !== 404) {
+    throw new Error('Failed to delete project');
+  }
+}
+
+// Embedding/chat provider configured on the server
+export interface ServerProviderInfo {
+  provider: 'openai' | 'openai-compatible' | 'mock';
+  baseUrl: string | null;
+  embeddingModel: string;
+  chatModel: string;
+  embeddingDimensions: number | null; // null for unknown models until the server has seen an embedding
+  configuredDimensions: number | null;
+}
+
+export async function fetchServerProvider(): Promise<ServerProviderInfo | null> {
+  try {
+    const response = await fetch(`${API_BASE}/health`);
+    if (!response.ok) return null;
+
+    const data = await response.json();
+    return data.provider ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export async function updateServerProvider(
+  update: Partial<Pick<ServerProviderInfo, 'baseUrl' | 'embeddingModel' | 'chatModel' | 'embeddingDimensions'>>,
+  adminToken?: string
+): Promise<ServerProviderInfo> {
+  const response = await fetch(`${API_BASE}/provider`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(adminToken && { Authorization: `Bearer ${adminToken}` }),
+    },
+    body: JSON.stringify(update),
+  });
+
+  // The server has BRAINSTORMY_ADMIN_TOKEN set
+  if (response.status === 401) {
+    throw new Error('Wrong or missing admin token');
+  }
+  if (!response.ok) {
+    throw new Error('Failed to update provider');
+  }
+
+  return response.json();
+}
+
+// Vector size produced by the active embedding provider, or null if unknown
+export function getExpectedEmbeddingDimensions(): number | null {
+  const { embeddingProvider, localModel, serverProvider } = useSettingsStore.getState();
+
+  if (embeddingProvider === 'local') {
+    return LOCAL_MODELS[localModel].dimensions;
+  }
+  return serverProvider?.embeddingDimensions ?? null;
+}
+
+// Id of the model behind the active embedding provider, e.g. "local/Xenova/gte-small"
+// or "server/text-embedding-3-small". Null while the server's provider is unknown.
+export function getEmbeddingModelId(): string | null {
+  const { embeddingProvider, localModel, serverProvider } = useSettingsStore.getState();
+
+  if (embeddingProvider === 'local') {
+    return `local/${LOCAL_MODELS[localModel].id}`;
+  }
+  if (!serverProvider) return null;
+  return serverProvider.provider === 'mock' ? 'server/mock' : `server/${serverProvider.embeddingModel}`;
+}
+
+// Model id to record with a vector: the active model, or the fallback marker when it didn't make it
+export function getEmbeddingModelFor(result: EmbeddingResult): string | undefined {
+  return result.isFallback ? FALLBACK_EMBEDDING_MODEL : getEmbeddingModelId() ?? undefined;
+}
+
+// Nodes whose vector was made by another model, is a fallback, or has the wrong size for the active one
+export function findEmbeddingMismatches(nodes: BrainstormNode[]): BrainstormNode[] {
+  const modelId = getEmbeddingModelId();
+  const dimensions = getExpectedEmbeddingDimensions();
+
+  return nodes.filter((n) => {
+    const { vector, embeddingModel } = n.data;
+    if (!vector) return false;
+    if (embeddingModel === FALLBACK_EMBEDDING_MODEL) return true;
+    if (dimensions && vector.length !== dimensions) return true;
+    return !!modelId && !!embeddingModel && embeddingModel !== modelId;
+  });
+}
+
+// The model shared by every node vector of a project, or undefined when mixed or unknown
+export function getSharedEmbeddingModel(nodes: BrainstormNode[]): string | undefined {
+  const models = new Set(
+    nodes.filter((n) => n.data.vector).map((n) => n.data.embeddingModel)
+  );
+  return models.size === 1 ? [...models][0] : undefined;
+}
+
 // Fallback embedding generator (semantic-aware mock)
 function generateFallbackEmbedding(text: string): number[] {
   const t = text.toLowerCase();
@@ -0,0 +1,68 @@
+import type { BrainstormEdge } from '../types';
+
+// Check if an edge is a cross-link (non-tree "related to" edge)
+export function isCrossLink(edge: BrainstormEdge): boolean {
+  return edge.data?.kind === 'crosslink';
+}
+
+// Keep only the parent -> child edges that form the hierarchy
+export function getTreeEdges(edges: BrainstormEdge[]): BrainstormEdge[] {
+  return edges.filter((e) => !isCrossLink(e));
+}
+
+// Keep only the cross-link edges
+export function getCrossLinks(edges: BrainstormEdge[]): BrainstormEdge[] {
+  return edges.filter(isCrossLink);
+}
+
+// Build a cross-link edge between two nodes
+export function createCrossLinkEdge(
+  sourceId: string,
+  targetId: string,
+  label?: string
+): BrainstormEdge {
+  return {
+    id: `x-${sourceId}-${targetId}`,
+    source: sourceId,
+    target: targetId,
+    data: { kind: 'crosslink', label: label || undefined },
+  };
+}
+
+// Build a parent -> child tree edge, styled after the child's topic color
+export function createTreeEdge(
+  parentId: string,
+  childId: string,
+  color: string,
+  isAnchor: boolean
+): BrainstormEdge {
+  return {
+    id: `e-${parentId}-${childId}`,
+    source: parentId,
+    target: childId,
+    type: 'smoothstep',
+    style: {
+      stroke: color,
+      strokeWidth: isAnchor ? 2 : 1.5,
+      opacity: isAnchor ? 0.8 : 0.5,
+    },
+    animated: false,
+  };
+}
+
+// Collect a node and all of its descendants through tree edges
+export function getSubtreeIds(nodeId: string, edges: BrainstormEdge[]): Set<string> {
+  const treeEdges = getTreeEdges(edges);
+  const subtreeIds = new Set<string>();
+
+  const collect = (id: string) => {
+    if (subtreeIds.has(id)) return;
+    subtreeIds.add(id);
+    treeEdges
+      .filter((e) => e.source === id)
+      .forEach((e) => collect(e.target));
+  };
+
+  collect(nodeId);
+  return subtreeIds;
+}
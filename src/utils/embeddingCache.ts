@@ -0,0 +1,146 @@
+// Persistent browser cache for embeddings, shared by all projects.
+// Entries are keyed by [namespace, text], where the namespace identifies provider + model.
+
+const DB_NAME = 'brainstormy-embeddings';
+const DB_VERSION = 1;
+const STORE = 'embeddings';
+const LAST_USED_INDEX = 'lastUsed';
+
+// Most entries kept before the least recently used ones are evicted (~1.5KB each at 384 dims)
+export const EMBEDDING_CACHE_MAX_ENTRIES = 20_000;
+
+interface CacheRecord {
+  namespace: string;
+  text: string;
+  vector: Float32Array;
+  lastUsed: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openDb(): Promise<IDBDatabase> | null {
+  if (typeof indexedDB === 'undefined') return null;
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: ['namespace', 'text'] });
+        store.createIndex(LAST_USED_INDEX, 'lastUsed');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Same normalization as the server cache, so "Mining " and "mining" share an entry
+ */
+export function normalizeEmbeddingText(text: string): string {
+  return text.toLowerCase().trim();
+}
+
+/**
+ * Look up normalized texts, returning a vector (or undefined) per text.
+ * Hits are marked as recently used. Never throws: a broken cache is just a miss.
+ */
+export async function getCachedEmbeddings(
+  namespace: string,
+  texts: string[]
+): Promise<Array<number[] | undefined>> {
+  try {
+    const db = await openDb();
+    if (!db) return texts.map(() => undefined);
+
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const records = await Promise.all(
+      texts.map((text) => requestToPromise<CacheRecord | undefined>(store.get([namespace, text])))
+    );
+
+    const now = Date.now();
+    records.forEach((record) => {
+      if (record) store.put({ ...record, lastUsed: now });
+    });
+    await transactionDone(tx);
+
+    return records.map((record) => (record ? Array.from(record.vector) : undefined));
+  } catch (error) {
+    console.warn('Embedding cache read failed:', error);
+    return texts.map(() => undefined);
+  }
+}
+
+/**
+ * Store embeddings for normalized texts, then evict the least recently used entries
+ */
+export async function cacheEmbeddings(
+  namespace: string,
+  entries: Array<{ text: string; embedding: number[] }>
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  try {
+    const db = await openDb();
+    if (!db) return;
+
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const now = Date.now();
+    entries.forEach(({ text, embedding }) => {
+      store.put({ namespace, text, vector: new Float32Array(embedding), lastUsed: now } satisfies CacheRecord);
+    });
+
+    const count = await requestToPromise(store.count());
+    let overflow = count - EMBEDDING_CACHE_MAX_ENTRIES;
+    if (overflow > 0) {
+      const cursorRequest = store.index(LAST_USED_INDEX).openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || overflow <= 0) return;
+        cursor.delete();
+        overflow--;
+        cursor.continue();
+      };
+    }
+    await transactionDone(tx);
+  } catch (error) {
+    console.warn('Embedding cache write failed:', error);
+  }
+}
+
+export async function getEmbeddingCacheSize(): Promise<number> {
+  try {
+    const db = await openDb();
+    if (!db) return 0;
+    return await requestToPromise(db.transaction(STORE).objectStore(STORE).count());
+  } catch {
+    return 0;
+  }
+}
+
+export async function clearEmbeddingCache(): Promise<void> {
+  const db = await openDb();
+  if (!db) return;
+
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).clear();
+  await transactionDone(tx);
+}
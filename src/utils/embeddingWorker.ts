@@ -0,0 +1,138 @@
+/// <reference lib="webworker" />
+import { pipeline, env, type FeatureExtractionPipeline } from '@huggingface/transformers';
+
+// Configure transformers.js for the worker (the UI thread stays free while it runs)
+env.useBrowserCache = true;
+env.localModelPath = '/models/'; // Served by the app server from its models folder
+env.backends.onnx.wasm!.numThreads = 1; // Multi-threaded wasm needs cross-origin isolation
+env.backends.onnx.wasm!.wasmPaths = `${self.location.origin}/ort/`; // Also served by the app server, not the CDN
+
+// Texts per forward pass; bigger batches pad more and use more memory
+const MAX_BATCH_SIZE = 32;
+
+// Messages the page sends to the worker, tagged with a request id
+export type EmbeddingWorkerCommand =
+  | { type: 'load'; modelId: string; modelName: string; source: 'hub' | 'bundled' }
+  | { type: 'embed'; text: string }
+  | { type: 'embedBatch'; texts: string[] }
+  | { type: 'unload' };
+
+export type EmbeddingWorkerRequest = EmbeddingWorkerCommand & { id: number };
+
+// Embeddings travel as one flat Float32Array (transferred, not copied) plus its shape
+export interface EmbeddingBatchResult {
+  data: Float32Array;
+  dims: [number, number];
+}
+
+// Messages the worker sends back
+export type EmbeddingWorkerResponse =
+  | { id: number; type: 'result'; result?: EmbeddingBatchResult }
+  | { id: number; type: 'error'; error: string }
+  | { type: 'progress'; progress: number; status: string };
+
+const scope = self as unknown as DedicatedWorkerGlobalScope;
+
+let extractor: FeatureExtractionPipeline | null = null;
+
+function postProgress(progress: number, status: string) {
+  scope.postMessage({ type: 'progress', progress, status } satisfies EmbeddingWorkerResponse);
+}
+
+async function load(modelId: string, modelName: string, source: 'hub' | 'bundled') {
+  if (extractor) {
+    await extractor.dispose();
+    extractor = null;
+  }
+
+  // Bundled models come only from the app server, hub models only from Hugging Face
+  env.allowLocalModels = source === 'bundled';
+  env.allowRemoteModels = source === 'hub';
+
+  postProgress(0, `Loading ${modelName}...`);
+
+  extractor = await pipeline('feature-extraction', modelId, {
+    progress_callback: (data: { status: string; progress?: number; file?: string }) => {
+      if (data.status === 'progress' && data.progress !== undefined) {
+        postProgress(Math.round(data.progress), `Downloading ${data.file || 'model'}...`);
+      } else if (data.status === 'ready') {
+        postProgress(100, 'Model ready');
+      } else if (data.status === 'initiate') {
+        postProgress(0, `Initializing ${data.file || 'model'}...`);
+      }
+    },
+  });
+
+  postProgress(100, 'Model loaded');
+}
+
+/**
+ * Embed texts in real batched forward passes, returning one flat [texts, dims] array
+ */
+async function embedBatch(texts: string[]): Promise<EmbeddingBatchResult> {
+  if (!extractor) {
+    throw new Error('No model loaded. Call loadModel first.');
+  }
+
+  const chunks: Float32Array[] = [];
+  let dimensions = 0;
+
+  for (let i = 0; i < texts.length; i += MAX_BATCH_SIZE) {
+    const output = await extractor(texts.slice(i, i + MAX_BATCH_SIZE), {
+      pooling: 'mean',
+      normalize: true,
+    });
+    dimensions = output.dims[1] ?? 0;
+    chunks.push(output.data as Float32Array);
+  }
+
+  const data = new Float32Array(texts.length * dimensions);
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    data.set(chunk, offset);
+    offset += chunk.length;
+  });
+
+  return { data, dims: [texts.length, dimensions] };
+}
+
+scope.onmessage = async (event: MessageEvent<EmbeddingWorkerRequest>) => {
+  const message = event.data;
+
+  try {
+    switch (message.type) {
+      case 'load':
+        await load(message.modelId, message.modelName, message.source);
+        scope.postMessage({ id: message.id, type: 'result' } satisfies EmbeddingWorkerResponse);
+        break;
+
+      case 'embed':
+      case 'embedBatch': {
+        const texts = message.type === 'embed' ? [message.text] : message.texts;
+        const result = await embedBatch(texts);
+        scope.postMessage(
+          { id: message.id, type: 'result', result } satisfies EmbeddingWorkerResponse,
+          [result.data.buffer]
+        );
+        break;
+      }
+
+      case 'unload':
+        await extractor?.dispose();
+        extractor = null;
+        postProgress(0, 'Model unloaded');
+        scope.postMessage({ id: message.id, type: 'result' } satisfies EmbeddingWorkerResponse);
+        break;
+    }
+  } catch (error) {
+    if (message.type === 'load') {
+      extractor = null;
+      postProgress(0, 'Failed to load model');
+    }
+    scope.postMessage({
+      id: message.id,
+      type: 'error',
+      error: error instanceof Error ? error.message : String(error),
+    } satisfies EmbeddingWorkerResponse);
+  }
+};
@@ -0,0 +1,36 @@
+/**
+ * Score how well a query fuzzy-matches a text: every query character must appear in order.
+ * Returns 0 when there is no match, higher is better.
+ * Substrings beat scattered matches; consecutive and word-start characters score extra.
+ */
+export function fuzzyScore(query: string, text: string): number {
+  const q = query.toLowerCase().trim();
+  const t = text.toLowerCase();
+
+  if (!q) return 1;
+
+  // Whole substring: best, and earlier is better
+  const index = t.indexOf(q);
+  if (index !== -1) {
+    return 1000 - index;
+  }
+
+  let score = 0;
+  let ti = 0;
+  let previousMatch = -2;
+
+  for (const char of q) {
+    if (char === ' ') continue;
+    while (ti < t.length && t[ti] !== char) ti++;
+    if (ti >= t.length) return 0;
+
+    score += 1;
+    if (ti === previousMatch + 1) score += 2;
+    if (ti === 0 || t[ti - 1] === ' ' || t[ti - 1] === '-') score += 3;
+
+    previousMatch = ti;
+    ti++;
+  }
+
+  return score;
+}
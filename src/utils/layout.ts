@@ -1,5 +1,6 @@
 import ELK from 'elkjs/lib/elk.bundled';
 import type { BrainstormNode, BrainstormEdge } from '../types';
+import { getTreeEdges } from './edges';
 
 const elk = new ELK();
 
@@ -53,7 +54,8 @@ export async function getLayoutedElements(
         height,
       };
     }),
-    edges: edges.map((edge) => ({
+    // Only the hierarchy drives the layout; cross-links are drawn on top of it
+    edges: getTreeEdges(edges).map((edge) => ({
       id: edge.id,
       sources: [edge.source],
       targets: [edge.target],
@@ -98,7 +100,7 @@ export function getRadialLayout(
 
   // Build adjacency map
   const children = new Map<string, string[]>();
-  edges.forEach((e) => {
+  getTreeEdges(edges).forEach((e) => {
     if (!children.has(e.source)) {
       children.set(e.source, []);
     }
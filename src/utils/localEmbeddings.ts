@@ -1,9 +1,11 @@
-import { pipeline, env, type FeatureExtractionPipeline } from '@huggingface/transformers';
+import type {
+  EmbeddingWorkerCommand,
+  EmbeddingWorkerRequest,
+  EmbeddingWorkerResponse,
+  EmbeddingBatchResult,
+} from './embeddingWorker';
 
-// Configure transformers.js for browser environment
-env.allowLocalModels = false;
-env.useBrowserCache = true;
-env.backends.onnx.wasm.numThreads = 1; // Use single thread for better compatibility
+// transformers.js runs in embeddingWorker.ts; this module is the page-side client
 
 // Available models for local embeddings
 export const LOCAL_MODELS = {
@@ -32,12 +34,23 @@ export const LOCAL_MODELS = {
 
 export type LocalModelKey = keyof typeof LOCAL_MODELS;
 
+// Where model files come from: the Hugging Face hub, or the app server's models folder (offline)
+export type ModelSource = 'hub' | 'bundled';
+
 // Singleton state
-let extractor: FeatureExtractionPipeline | null = null;
+let worker: Worker | null = null;
 let currentModelKey: LocalModelKey | null = null;
+let currentModelSource: ModelSource | null = null;
 let isLoading = false;
 let loadProgress = 0;
 
+// Requests waiting for the worker's answer
+let nextRequestId = 0;
+const pendingRequests = new Map<
+  number,
+  { resolve: (result?: EmbeddingBatchResult) => void; reject: (error: Error) => void }
+>();
+
 type ProgressCallback = (progress: number, status: string) => void;
 
 // Progress tracking
@@ -52,9 +65,90 @@ function notifyProgress(progress: number, status: string) {
   progressCallbacks.forEach(cb => cb(progress, status));
 }
 
+function getWorker(): Worker {
+  if (!worker) {
+    // Served as its own bundle by the server (see server/embeddingWorkerBundle.ts) and build.ts
+    worker = new Worker('/embedding-worker.js', { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<EmbeddingWorkerResponse>) => {
+      const message = event.data;
+
+      if (message.type === 'progress') {
+        loadProgress = message.progress;
+        notifyProgress(message.progress, message.status);
+        return;
+      }
+
+      const pending = pendingRequests.get(message.id);
+      if (!pending) return;
+      pendingRequests.delete(message.id);
+
+      if (message.type === 'error') {
+        pending.reject(new Error(message.error));
+      } else {
+        pending.resolve(message.result);
+      }
+    };
+
+    worker.onerror = (event) => {
+      console.error('Embedding worker error:', event.message);
+      pendingRequests.forEach(({ reject }) => reject(new Error('Embedding worker crashed')));
+      pendingRequests.clear();
+      worker = null;
+      currentModelKey = null;
+    };
+  }
+  return worker;
+}
+
+function sendRequest(command: EmbeddingWorkerCommand): Promise<EmbeddingBatchResult | undefined> {
+  const id = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    pendingRequests.set(id, { resolve, reject });
+    getWorker().postMessage({ ...command, id } satisfies EmbeddingWorkerRequest);
+  });
+}
+
+// Split the worker's flat [texts, dims] array into one vector per text
+function toVectors(result: EmbeddingBatchResult | undefined): number[][] {
+  if (!result) return [];
+
+  const [count, dims] = result.dims;
+  const vectors: number[][] = [];
+  for (let i = 0; i < count; i++) {
+    vectors.push(Array.from(result.data.subarray(i * dims, (i + 1) * dims)));
+  }
+  return vectors;
+}
+
+/**
+ * Make sure the server's models folder has every file of a model,
+ * so a missing file fails with a clear message instead of a fetch error deep in transformers.js
+ */
+async function checkBundledModel(modelKey: LocalModelKey): Promise<void> {
+  const model = LOCAL_MODELS[modelKey];
+
+  let listing: { modelsDir: string; models: Array<{ id: string; missing: string[] }> };
+  try {
+    const response = await fetch('/api/models');
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    listing = await response.json();
+  } catch {
+    throw new Error('Could not reach the server to load bundled models');
+  }
+
+  const bundled = listing.models.find((m) => m.id === model.id);
+  if (!bundled) {
+    throw new Error(`${model.name} is not in the server's models folder. Copy ${model.id} into ${listing.modelsDir}/${model.id}`);
+  }
+  if (bundled.missing.length > 0) {
+    throw new Error(`${model.name} is missing ${bundled.missing.join(', ')} in ${listing.modelsDir}/${model.id}`);
+  }
+}
+
 // Load a model
-export async function loadModel(modelKey: LocalModelKey): Promise<void> {
-  if (currentModelKey === modelKey && extractor) {
+export async function loadModel(modelKey: LocalModelKey, source: ModelSource = 'hub'): Promise<void> {
+  if (currentModelKey === modelKey && currentModelSource === source) {
     return; // Already loaded
   }
 
@@ -68,27 +162,18 @@ export async function loadModel(modelKey: LocalModelKey): Promise<void> {
   const model = LOCAL_MODELS[modelKey];
 
   try {
-    notifyProgress(0, `Loading ${model.name}...`);
-
-    extractor = await pipeline('feature-extraction', model.id, {
-      progress_callback: (data: { status: string; progress?: number; file?: string }) => {
-        if (data.status === 'progress' && data.progress !== undefined) {
-          loadProgress = Math.round(data.progress);
-          notifyProgress(loadProgress, `Downloading ${data.file || 'model'}...`);
-        } else if (data.status === 'ready') {
-          notifyProgress(100, 'Model ready');
-        } else if (data.status === 'initiate') {
-          notifyProgress(0, `Initializing ${data.file || 'model'}...`);
-        }
-      },
-    });
-
+    currentModelKey = null;
+    currentModelSource = null;
+    if (source === 'bundled') {
+      await checkBundledModel(modelKey);
+    }
+    await sendRequest({ type: 'load', modelId: model.id, modelName: model.name, source });
     currentModelKey = modelKey;
-    notifyProgress(100, 'Model loaded');
+    currentModelSource = source;
   } catch (error) {
     console.error('Failed to load model:', error);
-    extractor = null;
     currentModelKey = null;
+    currentModelSource = null;
     notifyProgress(0, 'Failed to load model');
     throw error;
   } finally {
@@ -98,41 +183,30 @@ export async function loadModel(modelKey: LocalModelKey): Promise<void> {
 
 // Get embedding for text
 export async function getLocalEmbedding(text: string): Promise<number[]> {
-  if (!extractor) {
+  if (!currentModelKey) {
     throw new Error('No model loaded. Call loadModel first.');
   }
 
-  const output = await extractor(text, {
-    pooling: 'mean',
-    normalize: true,
-  });
-
-  // Convert to regular array
-  return Array.from(output.data as Float32Array);
+  const [vector] = toVectors(await sendRequest({ type: 'embed', text }));
+  if (!vector) {
+    throw new Error('Embedding worker returned no vector');
+  }
+  return vector;
 }
 
-// Get embeddings for multiple texts (batch)
+// Get embeddings for multiple texts (batched in the worker)
 export async function getLocalEmbeddings(texts: string[]): Promise<number[][]> {
-  if (!extractor) {
+  if (!currentModelKey) {
     throw new Error('No model loaded. Call loadModel first.');
   }
+  if (texts.length === 0) return [];
 
-  const results: number[][] = [];
-
-  for (const text of texts) {
-    const output = await extractor(text, {
-      pooling: 'mean',
-      normalize: true,
-    });
-    results.push(Array.from(output.data as Float32Array));
-  }
-
-  return results;
+  return toVectors(await sendRequest({ type: 'embedBatch', texts }));
 }
 
 // Check if model is loaded
 export function isModelLoaded(): boolean {
-  return extractor !== null;
+  return currentModelKey !== null;
 }
 
 // Get current model info
@@ -140,6 +214,11 @@ export function getCurrentModel(): LocalModelKey | null {
   return currentModelKey;
 }
 
+// Get where the current model was loaded from
+export function getCurrentModelSource(): ModelSource | null {
+  return currentModelSource;
+}
+
 // Get loading state
 export function getLoadingState(): { isLoading: boolean; progress: number } {
   return { isLoading, progress: loadProgress };
@@ -147,8 +226,10 @@ export function getLoadingState(): { isLoading: boolean; progress: number } {
 
 // Unload model to free memory
 export function unloadModel(): void {
-  extractor = null;
   currentModelKey = null;
+  currentModelSource = null;
   loadProgress = 0;
-  notifyProgress(0, 'Model unloaded');
+  if (worker) {
+    sendRequest({ type: 'unload' }).catch((error) => console.error('Failed to unload model:', error));
+  }
 }
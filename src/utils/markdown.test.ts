@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { parseMarkdownOutline, isMarkdownOutline, parsePastedLines, formatMarkdownOutline } from './markdown';
+import { createTreeEdge } from './edges';
+import { makeNode } from './testUtils';
+
+describe('Markdown outline import', () => {
+  it('should detect outlines', () => {
+    expect(isMarkdownOutline('# Title\n- item')).toBe(true);
+    expect(isMarkdownOutline('1. first\n2. second')).toBe(true);
+    expect(isMarkdownOutline('just a sentence')).toBe(false);
+  });
+
+  it('should nest headings and mixed bullets by level and indentation', () => {
+    const graph = parseMarkdownOutline(`# Meeting notes
+
+Some intro paragraph that is ignored.
+
+## Decisions
+* Ship on Friday
+    1. Freeze the branch
+    2) Tag the release
+- [x] Write changelog
+
+## Open questions
++ Who owns docs?`);
+
+    expect(graph.nodes.map((n) => n.label)).toEqual([
+      'Meeting notes',
+      'Decisions',
+      'Ship on Friday',
+      'Freeze the branch',
+      'Tag the release',
+      'Write changelog',
+      'Open questions',
+      'Who owns docs?',
+    ]);
+
+    const labelOf = new Map(graph.nodes.map((n) => [n.id, n.label]));
+    expect(graph.edges.map((e) => `${labelOf.get(e.source)} > ${labelOf.get(e.target)}`)).toEqual([
+      'Meeting notes > Decisions',
+      'Decisions > Ship on Friday',
+      'Ship on Friday > Freeze the branch',
+      'Ship on Friday > Tag the release',
+      'Decisions > Write changelog',
+      'Meeting notes > Open questions',
+      'Open questions > Who owns docs?',
+    ]);
+  });
+
+  /**
+   * Same shape as exportToMarkdown: "# root", two-space indented bullets
+   * and a trailing "## Related" section for cross-links.
+   */
+  it('should round-trip our own Markdown export', () => {
+    const graph = parseMarkdownOutline(`# Game ideas
+  - Idle game
+    - Prestige loop
+  - Skills
+    - Mining
+
+## Related
+- Prestige loop <-> Mining: unlocks
+- Idle game <-> Skills`);
+
+    const labelOf = new Map(graph.nodes.map((n) => [n.id, n.label]));
+    const describeEdge = (e: (typeof graph.edges)[number]) =>
+      `${labelOf.get(e.source)} ${e.kind === 'tree' ? '>' : '<->'} ${labelOf.get(e.target)}${e.label ? `: ${e.label}` : ''}`;
+
+    expect(graph.nodes).toHaveLength(5);
+    expect(graph.edges.map(describeEdge)).toEqual([
+      'Game ideas > Idle game',
+      'Idle game > Prestige loop',
+      'Game ideas > Skills',
+      'Skills > Mining',
+      'Prestige loop <-> Mining: unlocks',
+      'Idle game <-> Skills',
+    ]);
+  });
+
+  it('should keep notes through a Markdown export and import', () => {
+    const nodes = [
+      makeNode('root', { label: 'Game ideas', notes: 'Pitch: cozy and slow' }),
+      makeNode('idle', { label: 'Idle game', notes: 'Core loop:\n\n- mine\n- sell' }),
+      makeNode('prestige', { label: 'Prestige loop' }),
+      makeNode('skills', { label: 'Skills' }),
+    ];
+    const edges = [
+      createTreeEdge('root', 'idle', '#fff', true),
+      createTreeEdge('idle', 'prestige', '#fff', false),
+      createTreeEdge('root', 'skills', '#fff', true),
+    ];
+
+    const graph = parseMarkdownOutline(formatMarkdownOutline(nodes, edges));
+
+    expect(graph.nodes.map(({ label, notes }) => ({ label, notes }))).toEqual([
+      { label: 'Game ideas', notes: 'Pitch: cozy and slow' },
+      { label: 'Idle game', notes: 'Core loop:\n\n- mine\n- sell' },
+      { label: 'Prestige loop', notes: undefined },
+      { label: 'Skills', notes: undefined },
+    ]);
+    expect(graph.edges).toHaveLength(3);
+  });
+
+  it('should split pasted lines and nest them by indentation', () => {
+    const items = parsePastedLines('Mining\n  - Ore types\n\t* [ ] Gold\n\nCrafting\r\n  Recipes');
+
+    expect(items).toEqual([
+      { label: 'Mining', parentIndex: undefined },
+      { label: 'Ore types', parentIndex: 0 },
+      { label: 'Gold', parentIndex: 1 },
+      { label: 'Crafting', parentIndex: undefined },
+      { label: 'Recipes', parentIndex: 3 },
+    ]);
+  });
+});
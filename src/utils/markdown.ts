@@ -0,0 +1,207 @@
+import type { BrainstormNode, BrainstormEdge, ImportedGraph } from '../types';
+import { getTreeEdges, getCrossLinks } from './edges';
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+// "-", "*", "+", "1." or "1)" bullets, with an optional task checkbox
+const BULLET_PATTERN = /^(\s*)(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?(.+?)\s*$/;
+// Cross-link lines written by exportToMarkdown in the "Related" section
+const RELATED_PATTERN = /^(.+?) <-> (.+?)(?:: (.+))?$/;
+// Blockquote lines, which exportToMarkdown writes for a node's notes
+const QUOTE_PATTERN = /^\s*> ?(.*)$/;
+
+// Headings always rank above bullets, deeper indentation ranks lower
+const BULLET_RANK_BASE = 10;
+const TAB_WIDTH = 4;
+
+/**
+ * Check whether text looks like a Markdown outline (has headings or bullets)
+ */
+export function isMarkdownOutline(text: string): boolean {
+  return text
+    .split('\n')
+    .some((line) => HEADING_PATTERN.test(line) || BULLET_PATTERN.test(line));
+}
+
+/**
+ * Parse headings and nested bullet lists into a tree.
+ * Each item's parent is the closest previous heading or less indented bullet.
+ * Blockquote lines become the notes of the heading or bullet above them.
+ * A "## Related" section of "A <-> B: label" lines becomes cross-links.
+ */
+export function parseMarkdownOutline(text: string): ImportedGraph {
+  const nodes: ImportedGraph['nodes'] = [];
+  const edges: ImportedGraph['edges'] = [];
+  const relatedLines: string[] = [];
+
+  const stack: Array<{ rank: number; id: string }> = [];
+  let inRelatedSection = false;
+
+  const addItem = (rank: number, label: string) => {
+    while (stack.length > 0 && stack[stack.length - 1]!.rank >= rank) {
+      stack.pop();
+    }
+
+    const id = `md${nodes.length}`;
+    nodes.push({ id, label });
+
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      edges.push({ source: parent.id, target: id, kind: 'tree' });
+    }
+    stack.push({ rank, id });
+  };
+
+  for (const line of text.split('\n')) {
+    const quote = line.match(QUOTE_PATTERN);
+    if (quote) {
+      const item = nodes[nodes.length - 1];
+      if (item && !inRelatedSection) {
+        item.notes = item.notes === undefined ? quote[1]! : `${item.notes}\n${quote[1]!}`;
+      }
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      const level = heading[1]!.length;
+      const label = heading[2]!;
+
+      // The Related section isn't a node, its lines are resolved once all nodes exist
+      inRelatedSection = level === 2 && label === 'Related';
+      if (!inRelatedSection) {
+        addItem(level, label);
+      }
+      continue;
+    }
+
+    const bullet = line.match(BULLET_PATTERN);
+    if (!bullet) continue;
+
+    const label = bullet[2]!;
+    if (inRelatedSection && RELATED_PATTERN.test(label)) {
+      relatedLines.push(label);
+      continue;
+    }
+
+    const indent = bullet[1]!.replace(/\t/g, ' '.repeat(TAB_WIDTH)).length;
+    addItem(BULLET_RANK_BASE + indent, label);
+  }
+
+  // Drop blank quote lines around notes
+  nodes.forEach((n) => {
+    if (n.notes === undefined) return;
+    const notes = n.notes.trim();
+    if (notes) n.notes = notes;
+    else delete n.notes;
+  });
+
+  // Resolve cross-links by label
+  const idByLabel = new Map<string, string>();
+  nodes.forEach((n) => {
+    if (!idByLabel.has(n.label)) idByLabel.set(n.label, n.id);
+  });
+
+  for (const line of relatedLines) {
+    const match = line.match(RELATED_PATTERN)!;
+    const source = idByLabel.get(match[1]!);
+    const target = idByLabel.get(match[2]!);
+    if (source && target && source !== target) {
+      edges.push({ source, target, kind: 'crosslink', label: match[3] });
+    }
+  }
+
+  return { nodes, edges };
+}
+
+/**
+ * Write the graph as a Markdown outline: "# root", nested bullets, notes as blockquotes
+ * under their item, and cross-links in a trailing "## Related" section.
+ * parseMarkdownOutline reads it back.
+ */
+export function formatMarkdownOutline(nodes: BrainstormNode[], edges: BrainstormEdge[]): string {
+  const childrenMap = new Map<string, string[]>();
+  getTreeEdges(edges).forEach((e) => {
+    if (!childrenMap.has(e.source)) {
+      childrenMap.set(e.source, []);
+    }
+    childrenMap.get(e.source)!.push(e.target);
+  });
+
+  const nodeMap = new Map(nodes.map((n) => [n.id, n]));
+  const lines: string[] = [];
+
+  const renderNode = (nodeId: string, depth: number) => {
+    const node = nodeMap.get(nodeId);
+    if (!node) return;
+
+    const indent = '  '.repeat(depth);
+    const prefix = depth === 0 ? '# ' : `${indent}- `;
+    lines.push(`${prefix}${node.data.label}`);
+
+    // Notes as a blockquote under the item, so re-importing doesn't turn them into nodes
+    if (node.data.notes?.trim()) {
+      const quoteIndent = depth === 0 ? '' : `${indent}  `;
+      lines.push(...node.data.notes.trim().split('\n').map((line) => `${quoteIndent}>${line ? ` ${line}` : ''}`));
+    }
+
+    const children = childrenMap.get(nodeId) || [];
+    children.forEach((childId) => renderNode(childId, depth + 1));
+  };
+
+  renderNode('root', 0);
+
+  // Cross-links go in their own section after the tree
+  const related = getCrossLinks(edges);
+  if (related.length > 0) {
+    lines.push('', '## Related');
+    related.forEach((e) => {
+      const source = nodeMap.get(e.source)?.data.label ?? e.source;
+      const target = nodeMap.get(e.target)?.data.label ?? e.target;
+      const label = e.data?.label ? `: ${e.data.label}` : '';
+      lines.push(`- ${source} <-> ${target}${label}`);
+    });
+  }
+
+  return lines.join('\n');
+}
+
+// One pasted line, with the index of the item it is nested under
+export interface PastedItem {
+  label: string;
+  parentIndex?: number;
+}
+
+/**
+ * Split pasted text into one item per non-empty line.
+ * Bullets, checkboxes and heading marks are stripped, and a line nests under
+ * the closest previous line with less indentation (headings above everything).
+ */
+export function parsePastedLines(text: string): PastedItem[] {
+  const items: PastedItem[] = [];
+  const stack: Array<{ rank: number; index: number }> = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+
+    let rank: number;
+    let label: string;
+    const heading = line.match(HEADING_PATTERN);
+    const bullet = line.match(BULLET_PATTERN);
+    if (heading) {
+      rank = heading[1]!.length;
+      label = heading[2]!;
+    } else {
+      const indent = (bullet ? bullet[1]! : line.match(/^\s*/)![0]).replace(/\t/g, ' '.repeat(TAB_WIDTH)).length;
+      rank = BULLET_RANK_BASE + indent;
+      label = bullet ? bullet[2]! : line.trim();
+    }
+
+    while (stack.length > 0 && stack[stack.length - 1]!.rank >= rank) {
+      stack.pop();
+    }
+    items.push({ label, parentIndex: stack[stack.length - 1]?.index });
+    stack.push({ rank, index: items.length - 1 });
+  }
+
+  return items;
+}
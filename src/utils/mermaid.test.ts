@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { parseMermaid, isMermaid, encodeMermaidLabel } from './mermaid';
+
+describe('Mermaid import', () => {
+  it('should detect flowcharts', () => {
+    expect(isMermaid('graph TD\n  A --> B')).toBe(true);
+    expect(isMermaid('%% comment\nflowchart LR\n  A --> B')).toBe(true);
+    expect(isMermaid('{"nodes": []}')).toBe(false);
+    expect(isMermaid('# Heading\n- item')).toBe(false);
+  });
+
+  /**
+   * The original brief in Plan.md is a `graph TD` diagram:
+   * declarations on their own lines, indented children and blank lines in between.
+   */
+  it('should parse the Plan.md brainstorm diagram', () => {
+    const graph = parseMermaid(`graph TD
+
+
+A[Video Game Brainstorm]
+
+
+A --> B[Idle Game]
+
+A --> D[Activities and Skills]
+
+    D --> D1[Farming and Garden]
+
+    D --> D2[Mining Ores]
+`);
+
+    expect(graph.nodes).toEqual([
+      { id: 'A', label: 'Video Game Brainstorm' },
+      { id: 'B', label: 'Idle Game' },
+      { id: 'D', label: 'Activities and Skills' },
+      { id: 'D1', label: 'Farming and Garden' },
+      { id: 'D2', label: 'Mining Ores' },
+    ]);
+    expect(graph.edges.every((e) => e.kind === 'tree')).toBe(true);
+    expect(graph.edges.map((e) => `${e.source}->${e.target}`)).toEqual([
+      'A->B',
+      'A->D',
+      'D->D1',
+      'D->D2',
+    ]);
+  });
+
+  it('should parse shapes, chains and & groups', () => {
+    const graph = parseMermaid(`flowchart LR
+  A((Start)) --> B{Choice} --> C([End])
+  B & C --> D; D --> E>Flag]:::important`);
+
+    expect(graph.nodes.map((n) => n.label)).toEqual(['Start', 'Choice', 'End', 'D', 'Flag']);
+    expect(graph.edges.map((e) => `${e.source}->${e.target}`)).toEqual([
+      'A->B',
+      'B->C',
+      'B->D',
+      'C->D',
+      'D->E',
+    ]);
+  });
+
+  it('should turn dotted links, extra parents and cycles into labeled cross-links', () => {
+    const graph = parseMermaid(`graph TD
+  A --> B
+  A --> C
+  B -.->|uses| C
+  C -- feeds --> B
+  B --> A`);
+
+    const crossLinks = graph.edges.filter((e) => e.kind === 'crosslink');
+    expect(crossLinks).toEqual([
+      { source: 'B', target: 'C', kind: 'crosslink', label: 'uses' },
+      { source: 'C', target: 'B', kind: 'crosslink', label: 'feeds' },
+      { source: 'B', target: 'A', kind: 'crosslink', label: undefined },
+    ]);
+  });
+
+  it('should round-trip encoded labels', () => {
+    const label = 'Say "hi" | <b> #1';
+    const graph = parseMermaid(`graph LR\n  n1["${encodeMermaidLabel(label)}"]`);
+
+    expect(graph.nodes).toEqual([{ id: 'n1', label }]);
+  });
+});
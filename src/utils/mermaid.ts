@@ -0,0 +1,252 @@
+import type { ImportedGraph } from '../types';
+
+// Shape openers and their closers, longest first so '((' wins over '('
+const SHAPES: Array<[string, string]> = [
+  ['(((', ')))'],
+  ['((', '))'],
+  ['([', '])'],
+  ['[[', ']]'],
+  ['[(', ')]'],
+  ['{{', '}}'],
+  ['[/', ']'],
+  ['[\\', ']'],
+  ['(', ')'],
+  ['[', ']'],
+  ['{', '}'],
+  ['>', ']'],
+];
+
+// Statements that don't declare nodes or edges
+const IGNORED_STATEMENT = /^(subgraph|end|classDef|class|style|linkStyle|click|direction|accTitle|accDescr)\b/;
+
+// Links: -->, ---, ==>, -.->, -.-, optionally with inline text ("-- text -->") or a |label|
+const LINK_PATTERN =
+  /^\s*<?(?:(-{2,}>|-{3,}|={2,}>|={3,}|-\.+->|-\.+-)|--\s*([^|>]+?)\s*-{2,}>|-\.\s*([^|>]+?)\s*\.+->|==\s*([^|>]+?)\s*={2,}>)\s*(?:\|([^|]*)\|)?/;
+
+const NODE_ID_PATTERN = /^\s*([\p{L}\p{N}_]+)/u;
+
+interface ParsedNodeRef {
+  id: string;
+  label?: string;
+}
+
+/**
+ * Decode the escapes Mermaid allows in labels
+ */
+function decodeLabel(raw: string): string {
+  return raw
+    .replace(/#quot;/g, '"')
+    .replace(/#amp;/g, '&')
+    .replace(/#lt;/g, '<')
+    .replace(/#gt;/g, '>')
+    .replace(/#124;/g, '|')
+    .replace(/#35;/g, '#')
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^"(.*)"$/, '$1');
+}
+
+/**
+ * Encode a label so it is safe inside ["..."]
+ */
+export function encodeMermaidLabel(label: string): string {
+  return label
+    .replace(/#/g, '#35;')
+    .replace(/"/g, '#quot;')
+    .replace(/</g, '#lt;')
+    .replace(/>/g, '#gt;')
+    .replace(/\|/g, '#124;')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Split a line into statements on ';', ignoring semicolons inside quotes
+ */
+function splitStatements(line: string): string[] {
+  const statements: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === ';' && !inQuotes) {
+      statements.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  statements.push(current);
+
+  return statements.map((s) => s.trim()).filter(Boolean);
+}
+
+/**
+ * Parse one node reference (id plus optional shape and label) at the start of the text
+ */
+function parseNodeRef(text: string): { node: ParsedNodeRef; rest: string } | null {
+  const idMatch = text.match(NODE_ID_PATTERN);
+  if (!idMatch) return null;
+
+  const id = idMatch[1]!;
+  let rest = text.slice(idMatch[0].length);
+  let label: string | undefined;
+
+  const shape = SHAPES.find(([open]) => rest.startsWith(open));
+  if (shape) {
+    const [open, close] = shape;
+    let body = rest.slice(open.length);
+    let end: number;
+
+    if (body.trimStart().startsWith('"')) {
+      // Quoted label: the closer comes after the closing quote
+      body = body.trimStart();
+      const closingQuote = body.indexOf('"', 1);
+      if (closingQuote === -1) return null;
+      label = body.slice(1, closingQuote);
+      end = body.indexOf(close, closingQuote);
+      if (end === -1) return null;
+    } else {
+      end = body.indexOf(close);
+      if (end === -1) return null;
+      label = body.slice(0, end).replace(/^[/\\]|[/\\]$/g, '');
+    }
+
+    rest = body.slice(end + close.length);
+    label = decodeLabel(label);
+  }
+
+  // Drop class shorthand (A:::important)
+  rest = rest.replace(/^:::[\w-]+/, '');
+
+  return { node: { id, label }, rest };
+}
+
+/**
+ * Parse a group of node references joined with '&'
+ */
+function parseNodeGroup(text: string): { nodes: ParsedNodeRef[]; rest: string } | null {
+  const nodes: ParsedNodeRef[] = [];
+  let rest = text;
+
+  while (true) {
+    const parsed = parseNodeRef(rest);
+    if (!parsed) return nodes.length > 0 ? { nodes, rest } : null;
+
+    nodes.push(parsed.node);
+    rest = parsed.rest;
+
+    const amp = rest.match(/^\s*&/);
+    if (!amp) return { nodes, rest };
+    rest = rest.slice(amp[0].length);
+  }
+}
+
+/**
+ * Check whether text looks like a Mermaid flowchart
+ */
+export function isMermaid(text: string): boolean {
+  const firstStatement = text
+    .split('\n')
+    .map((line) => line.trim())
+    .find((line) => line && !line.startsWith('%%'));
+
+  return !!firstStatement && /^(graph|flowchart)\b/.test(firstStatement);
+}
+
+/**
+ * Parse a Mermaid `graph`/`flowchart` diagram.
+ * The first solid arrow into a node makes it a child (tree edge);
+ * dotted links, extra parents and cycle-closing arrows become cross-links.
+ */
+export function parseMermaid(text: string): ImportedGraph {
+  const labels = new Map<string, string>();
+  const order: string[] = [];
+  const links: Array<{ source: string; target: string; dotted: boolean; label?: string }> = [];
+
+  const declare = (node: ParsedNodeRef) => {
+    if (!labels.has(node.id)) {
+      order.push(node.id);
+      labels.set(node.id, node.label || node.id);
+    } else if (node.label) {
+      labels.set(node.id, node.label);
+    }
+  };
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.replace(/%%.*$/, '').trim();
+    if (!line || /^(graph|flowchart)\b/.test(line)) continue;
+
+    for (const statement of splitStatements(line)) {
+      if (IGNORED_STATEMENT.test(statement)) continue;
+
+      const first = parseNodeGroup(statement);
+      if (!first) continue;
+      first.nodes.forEach(declare);
+
+      let sources = first.nodes;
+      let rest = first.rest;
+
+      while (true) {
+        const link = rest.match(LINK_PATTERN);
+        if (!link) break;
+
+        const operator = link[0];
+        const inlineLabel = link[2] ?? link[3] ?? link[4];
+        const label = decodeLabel(link[5] ?? inlineLabel ?? '') || undefined;
+        const dotted = !!link[1]?.includes('.') || link[3] !== undefined;
+
+        const next = parseNodeGroup(rest.slice(operator.length));
+        if (!next) break;
+        next.nodes.forEach(declare);
+
+        for (const source of sources) {
+          for (const target of next.nodes) {
+            links.push({ source: source.id, target: target.id, dotted, label });
+          }
+        }
+
+        sources = next.nodes;
+        rest = next.rest;
+      }
+    }
+  }
+
+  // Decide which links form the hierarchy
+  const treeParent = new Map<string, string>();
+  const createsCycle = (source: string, target: string) => {
+    let current: string | undefined = source;
+    while (current) {
+      if (current === target) return true;
+      current = treeParent.get(current);
+    }
+    return false;
+  };
+
+  const edges: ImportedGraph['edges'] = links
+    .filter((link) => link.source !== link.target)
+    .map((link) => {
+      const isTree =
+        !link.dotted &&
+        !treeParent.has(link.target) &&
+        !createsCycle(link.source, link.target);
+
+      if (isTree) {
+        treeParent.set(link.target, link.source);
+      }
+
+      return {
+        source: link.source,
+        target: link.target,
+        kind: isTree ? 'tree' : 'crosslink',
+        label: link.label,
+      };
+    });
+
+  return {
+    nodes: order.map((id) => ({ id, label: labels.get(id) || id })),
+    edges,
+  };
+}
@@ -0,0 +1,209 @@
+import { createJSONStorage, type PersistStorage, type StorageValue } from 'zustand/middleware';
+import type { Project, BrainstormNode } from '../types';
+
+const DB_NAME = 'brainstormy';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+const META_STORE = 'meta';
+
+/**
+ * The part of projectStore that gets persisted
+ */
+export interface PersistedProjectState {
+  activeProjectId: string | null;
+  projects: Record<string, Project>;
+  isSidebarOpen: boolean;
+}
+
+// Everything except the projects themselves, stored under the persist key
+interface MetaRecord {
+  key: string;
+  version?: number;
+  state: Omit<PersistedProjectState, 'projects'>;
+}
+
+// Vectors are kept as binary Float32Array instead of JSON number arrays
+type StoredNode = Omit<BrainstormNode, 'data'> & {
+  data: Record<string, unknown> & { vector?: Float32Array };
+};
+
+type StoredProject = Omit<Project, 'data'> & {
+  data: Omit<Project['data'], 'nodes'> & { nodes: StoredNode[] };
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+          db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+}
+
+function toStoredProject(project: Project): StoredProject {
+  return {
+    ...project,
+    data: {
+      ...project.data,
+      nodes: project.data.nodes.map((n) => ({
+        ...n,
+        data: {
+          ...n.data,
+          vector: n.data.vector ? new Float32Array(n.data.vector) : undefined,
+        },
+      })),
+    },
+  };
+}
+
+function fromStoredProject(stored: StoredProject): Project {
+  return {
+    ...stored,
+    data: {
+      ...stored.data,
+      nodes: stored.data.nodes.map((n) => ({
+        ...n,
+        data: {
+          ...n.data,
+          vector: n.data.vector ? Array.from(n.data.vector) : undefined,
+        },
+      }) as BrainstormNode),
+    },
+  };
+}
+
+/**
+ * Persist storage for projectStore backed by IndexedDB.
+ * Each project is its own record, so a save only rewrites the projects that changed.
+ * Data from the previous localStorage persistence is migrated on first load.
+ */
+function createIndexedDbStorage(): PersistStorage<PersistedProjectState> {
+  // Last written version of each project, compared by reference to skip unchanged ones
+  const writtenProjects = new Map<string, Project>();
+  let writeQueue: Promise<void> = Promise.resolve();
+
+  const write = async (name: string, value: StorageValue<PersistedProjectState>) => {
+    const { projects, ...rest } = value.state;
+
+    const changed = Object.values(projects).filter((p) => writtenProjects.get(p.id) !== p);
+    const removed = [...writtenProjects.keys()].filter((id) => !projects[id]);
+    changed.forEach((p) => writtenProjects.set(p.id, p));
+    removed.forEach((id) => writtenProjects.delete(id));
+
+    const db = await openDb();
+    const tx = db.transaction([PROJECTS_STORE, META_STORE], 'readwrite');
+    const projectStore = tx.objectStore(PROJECTS_STORE);
+    changed.forEach((p) => projectStore.put(toStoredProject(p)));
+    removed.forEach((id) => projectStore.delete(id));
+
+    const meta: MetaRecord = { key: name, version: value.version, state: rest };
+    tx.objectStore(META_STORE).put(meta);
+
+    await transactionDone(tx);
+  };
+
+  return {
+    getItem: async (name) => {
+      const db = await openDb();
+      const tx = db.transaction([PROJECTS_STORE, META_STORE], 'readonly');
+      const [meta, stored] = await Promise.all([
+        requestToPromise<MetaRecord | undefined>(tx.objectStore(META_STORE).get(name)),
+        requestToPromise<StoredProject[]>(tx.objectStore(PROJECTS_STORE).getAll()),
+      ]);
+
+      if (!meta) {
+        // First load since the move to IndexedDB: migrate the localStorage copy
+        const legacy = localStorage.getItem(name);
+        if (!legacy) return null;
+
+        try {
+          const parsed = JSON.parse(legacy) as StorageValue<PersistedProjectState>;
+          await write(name, parsed);
+          localStorage.removeItem(name);
+          return parsed;
+        } catch (error) {
+          console.error('Failed to migrate projects from localStorage:', error);
+          return null;
+        }
+      }
+
+      const projects: Record<string, Project> = {};
+      stored.forEach((s) => {
+        const project = fromStoredProject(s);
+        projects[project.id] = project;
+        writtenProjects.set(project.id, project);
+      });
+
+      return { state: { ...meta.state, projects }, version: meta.version };
+    },
+
+    setItem: (name, value) => {
+      // Queue writes so an older snapshot never lands after a newer one
+      writeQueue = writeQueue
+        .then(() => write(name, value))
+        .catch((error) => console.error('Failed to save projects:', error));
+      return writeQueue;
+    },
+
+    removeItem: async (name) => {
+      writtenProjects.clear();
+      const db = await openDb();
+      const tx = db.transaction([PROJECTS_STORE, META_STORE], 'readwrite');
+      tx.objectStore(PROJECTS_STORE).clear();
+      tx.objectStore(META_STORE).delete(name);
+      await transactionDone(tx);
+    },
+  };
+}
+
+/**
+ * Storage for projectStore: IndexedDB when available, localStorage otherwise
+ */
+export function createProjectStorage(): PersistStorage<PersistedProjectState> | undefined {
+  if (typeof indexedDB === 'undefined') {
+    return createJSONStorage(() => localStorage);
+  }
+  return createIndexedDbStorage();
+}
+
+/**
+ * Get how much storage this origin uses and may use, via the Storage API
+ */
+export async function getStorageEstimate(): Promise<{ usage: number; quota: number } | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return quota > 0 ? { usage, quota } : null;
+  } catch {
+    return null;
+  }
+}
@@ -1,4 +1,5 @@
-import type { BrainstormNode, BrainstormEdge } from '../types';
+import type { BrainstormNode, BrainstormEdge, Project } from '../types';
+import { isCrossLink } from './edges';
 
 /**
  * Generate a unique project ID
@@ -24,12 +25,16 @@ export async function generateContentHash(
         label: n.data.label,
         parentId: n.data.parentId,
         isAnchor: n.data.isAnchor,
+        // Only present when set so hashes of graphs without notes stay unchanged
+        ...(n.data.notes && { notes: n.data.notes }),
       }))
       .sort((a, b) => a.id.localeCompare(b.id)),
     edges: edges
       .map((e) => ({
         source: e.source,
         target: e.target,
+        // Only tag cross-links so hashes of plain trees stay unchanged
+        ...(isCrossLink(e) && { kind: 'crosslink', label: e.data?.label }),
       }))
       .sort((a, b) =>
         `${a.source}-${a.target}`.localeCompare(`${b.source}-${b.target}`)
@@ -43,6 +48,13 @@ export async function generateContentHash(
   return hashArray.map((b) => b.toString(16).padStart(2, '0')).join('');
 }
 
+/**
+ * When a project was last edited or opened here, for "most recent first" ordering
+ */
+export function getLastUsedAt(project: Project): number {
+  return Math.max(project.modifiedAt, project.lastOpenedAt ?? 0);
+}
+
 /**
  * Format a timestamp as a relative time string
  * Examples: "Just now", "2m ago", "1h ago", "Yesterday", "Jan 15"
@@ -78,33 +90,20 @@ export function formatRelativeTime(timestamp: number): string {
   }
 }
 
-/**
- * Get the current size of localStorage in bytes
- */
-export function getStorageSize(): number {
-  let total = 0;
-  for (const key in localStorage) {
-    if (localStorage.hasOwnProperty(key)) {
-      total += key.length + (localStorage.getItem(key)?.length || 0);
-    }
-  }
-  return total;
-}
-
 /**
  * Format bytes to human-readable string
  */
 export function formatBytes(bytes: number): string {
   if (bytes === 0) return '0 Bytes';
   const k = 1024;
-  const sizes = ['Bytes', 'KB', 'MB'];
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
   const i = Math.floor(Math.log(bytes) / Math.log(k));
   return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + ' ' + sizes[i];
 }
 
 /**
- * Storage size thresholds
+ * Storage thresholds, as a fraction of the browser's storage quota
  */
-export const STORAGE_WARNING_THRESHOLD = 4 * 1024 * 1024; // 4MB
-export const STORAGE_MAX_THRESHOLD = 8 * 1024 * 1024; // 8MB
+export const STORAGE_WARNING_RATIO = 0.8;
+export const STORAGE_MAX_RATIO = 0.95;
 export const MAX_PROJECTS = 50;
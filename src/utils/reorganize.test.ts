@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import type { BrainstormNode, BrainstormEdge } from '../types';
+import { clusterVectors, planReorganization } from './reorganize';
+import { createTreeEdge } from './edges';
+import { makeNode } from './testUtils';
+
+const root = { id: 'root', type: 'anchor', position: { x: 0, y: 0 }, data: { label: 'Root', createdAt: 0 } } as BrainstormNode;
+
+describe('clusterVectors', () => {
+  it('should merge similar vectors and leave outliers alone', () => {
+    const clusters = clusterVectors(
+      [
+        [1, 0, 0],
+        [0, 1, 0],
+        [0.9, 0.1, 0],
+        [0.1, 0.9, 0],
+        [0, 0, 1],
+      ],
+      0.5
+    );
+
+    expect(clusters).toEqual([[0, 2], [1, 3], [4]]);
+  });
+
+  it('should keep everything apart above any similarity', () => {
+    expect(clusterVectors([[1, 0], [0.9, 0.1]], 1.01)).toHaveLength(2);
+  });
+});
+
+describe('planReorganization', () => {
+  // Added in an unlucky order: crops ended up under mining, and ore became its own topic
+  const nodes = [
+    root,
+    makeNode('farming', { vector: [1, 0, 0] }),
+    makeNode('mining', { vector: [0, 1, 0] }),
+    makeNode('crops', { vector: [0.9, 0.1, 0] }),
+    makeNode('ore', { vector: [0.1, 0.9, 0.1] }),
+  ];
+  const edges: BrainstormEdge[] = [
+    createTreeEdge('root', 'farming', '#fff', true),
+    createTreeEdge('root', 'mining', '#fff', true),
+    createTreeEdge('mining', 'crops', '#fff', false),
+    createTreeEdge('root', 'ore', '#fff', true),
+  ];
+
+  it('should regroup nodes by meaning and report the moves', () => {
+    const plan = planReorganization(nodes, edges, 0.5);
+
+    expect(plan.parents.crops).toBe('farming');
+    expect(plan.parents.ore).toBe('mining');
+    expect(plan.parents.mining).toBe('root');
+    expect(plan.moves.map((m) => m.nodeId)).toContain('crops');
+    expect(plan.moves.find((m) => m.nodeId === 'crops')).toMatchObject({ fromParentId: 'mining', toParentId: 'farming' });
+    expect(plan.topicsBefore).toBe(3);
+    expect(plan.topicsAfter).toBe(2);
+  });
+
+  it('should not depend on the order nodes were added in', () => {
+    const plan = planReorganization(nodes, edges, 0.5);
+    const reversed = planReorganization([root, ...nodes.slice(1).reverse()], edges, 0.5);
+
+    expect(reversed.parents).toEqual(plan.parents);
+  });
+
+  it('should leave pinned and hand-placed nodes under their parent', () => {
+    const preserved = nodes.map((n) => {
+      if (n.id === 'crops') return { ...n, data: { ...n.data, pinned: true } };
+      if (n.id === 'ore') return { ...n, data: { ...n.data, placement: { mode: 'manual' as const, result: 'new-topic' as const, decidedAt: 0 } } };
+      return n;
+    });
+    const plan = planReorganization(preserved, edges, 0.5);
+
+    expect(plan.parents.crops).toBe('mining');
+    expect(plan.parents.ore).toBe('root');
+    expect(plan.preservedCount).toBe(2);
+    expect(plan.moves.map((m) => m.nodeId)).not.toContain('crops');
+  });
+
+  it('should let a cluster join a preserved node it is close to', () => {
+    const withPinnedTopic = [
+      root,
+      makeNode('music', { vector: [0, 0, 1], pinned: true }),
+      makeNode('guitar', { vector: [0.1, 0, 0.9] }),
+      makeNode('drums', { vector: [0, 0.1, 0.9] }),
+    ];
+    const flat = [
+      createTreeEdge('root', 'music', '#fff', true),
+      createTreeEdge('root', 'guitar', '#fff', true),
+      createTreeEdge('root', 'drums', '#fff', true),
+    ];
+    const plan = planReorganization(withPinnedTopic, flat, 0.5);
+
+    expect(plan.topicsAfter).toBe(1);
+    expect([plan.parents.guitar, plan.parents.drums]).toContain('music');
+  });
+});
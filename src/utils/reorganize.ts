@@ -0,0 +1,210 @@
+import type { BrainstormNode, BrainstormEdge } from '../types';
+import { getTreeEdges } from './edges';
+import { cosineSimilarity, computeCentroid } from './semantic';
+
+export interface ReorganizeMove {
+  nodeId: string;
+  fromParentId?: string;
+  toParentId: string; // 'root' = the node becomes a topic
+  similarity?: number; // To the new parent, unset for new topics
+}
+
+export interface ReorganizePlan {
+  parents: Record<string, string>; // New parent of every non-root node
+  moves: ReorganizeMove[];
+  preservedCount: number;
+  topicsBefore: number;
+  topicsAfter: number;
+}
+
+// Nodes re-organize leaves where they are: pinned, placed by hand, or without a vector to cluster on
+export function isPreserved(node: BrainstormNode): boolean {
+  return (
+    !!node.data.pinned ||
+    node.data.placement?.mode === 'manual' ||
+    node.data.placement?.revisedTo !== undefined ||
+    !node.data.vector
+  );
+}
+
+/**
+ * Average-linkage agglomerative clustering: merge the two most similar clusters
+ * until no pair is at least `threshold` similar. Clusters are lists of indices
+ * into `vectors`, largest first.
+ */
+export function clusterVectors(vectors: number[][], threshold: number): number[][] {
+  const similarities = pairwiseSimilarities(vectors);
+  const linkage = similarities.map((row) => [...row]);
+  const clusters: Array<number[] | null> = vectors.map((_, i) => [i]);
+
+  for (;;) {
+    let bestI = -1;
+    let bestJ = -1;
+    let best = -Infinity;
+
+    for (let i = 0; i < clusters.length; i++) {
+      if (!clusters[i]) continue;
+      for (let j = i + 1; j < clusters.length; j++) {
+        if (clusters[j] && linkage[i]![j]! > best) {
+          best = linkage[i]![j]!;
+          bestI = i;
+          bestJ = j;
+        }
+      }
+    }
+
+    if (bestI === -1 || best < threshold) break;
+
+    // Lance-Williams update: the merged cluster's average similarity to every other cluster
+    const a = clusters[bestI]!;
+    const b = clusters[bestJ]!;
+    for (let k = 0; k < clusters.length; k++) {
+      if (!clusters[k] || k === bestI || k === bestJ) continue;
+      const merged = (a.length * linkage[bestI]![k]! + b.length * linkage[bestJ]![k]!) / (a.length + b.length);
+      linkage[bestI]![k] = merged;
+      linkage[k]![bestI] = merged;
+    }
+    clusters[bestI] = [...a, ...b];
+    clusters[bestJ] = null;
+  }
+
+  return clusters
+    .filter((c): c is number[] => c !== null)
+    .sort((a, b) => b.length - a.length || a[0]! - b[0]!);
+}
+
+function pairwiseSimilarities(vectors: number[][]): number[][] {
+  const similarities = vectors.map(() => new Array<number>(vectors.length).fill(1));
+  for (let i = 0; i < vectors.length; i++) {
+    for (let j = i + 1; j < vectors.length; j++) {
+      const similarity = cosineSimilarity(vectors[i]!, vectors[j]!);
+      similarities[i]![j] = similarity;
+      similarities[j]![i] = similarity;
+    }
+  }
+  return similarities;
+}
+
+/**
+ * Turn a cluster into a tree: the member closest to all the others heads it (current
+ * topics win ties), and every other member hangs off the most similar member already
+ * in the tree (a maximum spanning tree grown from the head).
+ */
+function buildClusterTree(
+  members: number[],
+  similarities: number[][],
+  isTopic: (i: number) => boolean
+): { head: number; parents: Map<number, { parent: number; similarity: number }> } {
+  const total = (i: number) => members.reduce((sum, j) => sum + similarities[i]![j]!, 0);
+  const head = members.reduce((best, i) => {
+    const diff = total(i) - total(best);
+    return diff > 1e-9 || (Math.abs(diff) <= 1e-9 && isTopic(i) && !isTopic(best)) ? i : best;
+  });
+
+  const parents = new Map<number, { parent: number; similarity: number }>();
+  const remaining = new Set(members.filter((i) => i !== head));
+  for (const i of remaining) {
+    parents.set(i, { parent: head, similarity: similarities[i]![head]! });
+  }
+
+  while (remaining.size > 0) {
+    let next = -1;
+    for (const i of remaining) {
+      if (next === -1 || parents.get(i)!.similarity > parents.get(next)!.similarity) next = i;
+    }
+    remaining.delete(next);
+
+    for (const i of remaining) {
+      if (similarities[i]![next]! > parents.get(i)!.similarity) {
+        parents.set(i, { parent: next, similarity: similarities[i]![next]! });
+      }
+    }
+  }
+
+  return { head, parents };
+}
+
+/**
+ * Propose a fresh structure for the whole graph, independent of the order ideas were added in.
+ * Clusters of similar nodes become topics (or join a preserved node their centroid is close
+ * to); preserved nodes keep their parent.
+ */
+export function planReorganization(
+  nodes: BrainstormNode[],
+  edges: BrainstormEdge[],
+  threshold: number
+): ReorganizePlan {
+  const currentParents = new Map(getTreeEdges(edges).map((e) => [e.target, e.source]));
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const others = nodes.filter((n) => n.id !== 'root');
+  // Sorted so the result doesn't depend on the order of `nodes`
+  const movable = others
+    .filter((n) => !isPreserved(n))
+    .sort((a, b) => a.data.createdAt - b.data.createdAt || a.id.localeCompare(b.id));
+  const parents: Record<string, string> = {};
+
+  for (const node of others) {
+    if (isPreserved(node)) parents[node.id] = currentParents.get(node.id) ?? 'root';
+  }
+
+  // A cluster may only join preserved nodes whose ancestors all stay put, so no cycle can form
+  const staysPut = new Map<string, boolean>([['root', true]]);
+  const isAnchoredInPlace = (id: string): boolean => {
+    if (!staysPut.has(id)) {
+      const node = byId.get(id);
+      const parentId = currentParents.get(id);
+      staysPut.set(id, !!node && isPreserved(node) && !!parentId && isAnchoredInPlace(parentId));
+    }
+    return staysPut.get(id)!;
+  };
+  const attachPoints = others.filter((n) => n.data.vector && isAnchoredInPlace(n.id));
+
+  const vectors = movable.map((n) => n.data.vector!);
+  const similarities = pairwiseSimilarities(vectors);
+  const newSimilarities = new Map<string, number>();
+
+  for (const members of clusterVectors(vectors, threshold)) {
+    const { head, parents: treeParents } = buildClusterTree(
+      members,
+      similarities,
+      (i) => currentParents.get(movable[i]!.id) === 'root'
+    );
+
+    for (const [i, { parent, similarity }] of treeParents) {
+      parents[movable[i]!.id] = movable[parent]!.id;
+      newSimilarities.set(movable[i]!.id, similarity);
+    }
+
+    const centroid = computeCentroid(members.map((i) => vectors[i]!));
+    let bestAttach: BrainstormNode | null = null;
+    let bestSimilarity = threshold;
+    for (const candidate of attachPoints) {
+      const similarity = cosineSimilarity(centroid, candidate.data.vector!);
+      if (similarity >= bestSimilarity) {
+        bestAttach = candidate;
+        bestSimilarity = similarity;
+      }
+    }
+
+    const headId = movable[head]!.id;
+    parents[headId] = bestAttach?.id ?? 'root';
+    if (bestAttach) newSimilarities.set(headId, bestSimilarity);
+  }
+
+  const moves: ReorganizeMove[] = others
+    .filter((n) => parents[n.id] !== currentParents.get(n.id))
+    .map((n) => ({
+      nodeId: n.id,
+      fromParentId: currentParents.get(n.id),
+      toParentId: parents[n.id]!,
+      similarity: newSimilarities.get(n.id),
+    }));
+
+  return {
+    parents,
+    moves,
+    preservedCount: others.length - movable.length,
+    topicsBefore: others.filter((n) => currentParents.get(n.id) === 'root').length,
+    topicsAfter: Object.values(parents).filter((p) => p === 'root').length,
+  };
+}
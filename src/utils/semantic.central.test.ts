@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { findCentralNode } from './semantic';
+import { makeNode } from './testUtils';
+
+describe('findCentralNode', () => {
+  it('should pick the node closest to the group centroid', () => {
+    const group = [
+      makeNode('copper', { vector: [1, 0.2, 0] }),
+      makeNode('mining', { vector: [0.7, 0.7, 0] }),
+      makeNode('pickaxe', { vector: [0.2, 1, 0] }),
+    ];
+
+    expect(findCentralNode(group)!.id).toBe('mining');
+    expect(findCentralNode([])).toBeNull();
+  });
+});
@@ -0,0 +1,11 @@
+import { describe, it, expect } from 'vitest';
+import { getEmbeddingText, EMBEDDING_NOTES_MAX_CHARS } from './semantic';
+
+describe('getEmbeddingText', () => {
+  it('should add trimmed notes to the label, capped in length', () => {
+    expect(getEmbeddingText({ label: 'Copper' })).toBe('Copper');
+    expect(getEmbeddingText({ label: 'Copper', notes: '  \n ' })).toBe('Copper');
+    expect(getEmbeddingText({ label: 'Copper', notes: ' Found near *iron* ' })).toBe('Copper\n\nFound near *iron*');
+    expect(getEmbeddingText({ label: 'Copper', notes: 'x'.repeat(5000) })).toHaveLength(8 + EMBEDDING_NOTES_MAX_CHARS);
+  });
+});
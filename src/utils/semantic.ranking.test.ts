@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import type { BrainstormNode, BrainstormEdge } from '../types';
+import { findBestParent, rankParentCandidates } from './semantic';
+import { createTreeEdge } from './edges';
+import { makeNode } from './testUtils';
+
+describe('rankParentCandidates', () => {
+  const nodes = [
+    { id: 'root', type: 'anchor', position: { x: 0, y: 0 }, data: { label: 'Root', createdAt: 0 } } as BrainstormNode,
+    makeNode('farming', { vector: [1, 0, 0] }),
+    makeNode('crops', { vector: [0.9, 0.1, 0] }),
+    makeNode('mining', { vector: [0, 1, 0] }),
+    makeNode('ore', { vector: [0.1, 0.9, 0.1] }),
+    makeNode('music', { vector: [0, 0, 1] }),
+  ];
+  const edges: BrainstormEdge[] = [
+    createTreeEdge('root', 'farming', '#fff', true),
+    createTreeEdge('farming', 'crops', '#fff', false),
+    createTreeEdge('root', 'mining', '#fff', true),
+    createTreeEdge('mining', 'ore', '#fff', false),
+    createTreeEdge('root', 'music', '#fff', true),
+  ];
+
+  it('should put the findBestParent pick first and rank the rest by similarity', () => {
+    const vector = [0.2, 1, 0];
+    const ranked = rankParentCandidates(vector, nodes, edges);
+
+    expect(ranked[0]!.node.id).toBe(findBestParent(vector, nodes, edges).node!.id);
+    expect(ranked.map((c) => c.node.id)).not.toContain('root');
+    for (let i = 2; i < ranked.length; i++) {
+      expect(ranked[i - 1]!.similarity).toBeGreaterThanOrEqual(ranked[i]!.similarity);
+    }
+  });
+
+  it('should report cluster similarity only for nodes with children', () => {
+    const ranked = rankParentCandidates([1, 0.2, 0], nodes, edges);
+    const byId = new Map(ranked.map((c) => [c.node.id, c]));
+
+    expect(byId.get('farming')!.clusterSimilarity).toBeDefined();
+    expect(byId.get('crops')!.clusterSimilarity).toBeUndefined();
+    expect(byId.get('crops')!.similarity).toBe(byId.get('crops')!.directSimilarity);
+  });
+
+  it('should report which rule picked the parent', () => {
+    expect(findBestParent([0, 0.2, 1], nodes, edges).branch).toBe('leaf');
+    expect(findBestParent([1, 0, 0], nodes.slice(0, 3), []).branch).toBe('direct');
+    expect(findBestParent([1, 0, 0], [], []).branch).toBeUndefined();
+  });
+
+  it('should only consider what the strategy allows', () => {
+    const vector = [0.1, 0.9, 0.1];
+    const withAnchors = nodes.map((n) =>
+      ['farming', 'mining', 'music'].includes(n.id) ? { ...n, data: { ...n.data, isAnchor: true } } : n
+    );
+
+    expect(findBestParent(vector, nodes, edges, { strategy: 'nearest' })).toMatchObject({ node: { id: 'ore' }, branch: 'direct' });
+    expect(findBestParent(vector, withAnchors, edges, { strategy: 'anchor' }).node!.id).toBe('mining');
+    expect(findBestParent(vector, nodes, edges, { strategy: 'anchor' }).node).toBeNull();
+    expect(rankParentCandidates(vector, nodes, edges, 5, { strategy: 'nearest' })
+      .every((c) => c.clusterSimilarity === undefined)).toBe(true);
+  });
+
+  it('should respect the limit', () => {
+    expect(rankParentCandidates([1, 0, 0], nodes, edges, 2)).toHaveLength(2);
+  });
+});
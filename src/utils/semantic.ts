@@ -1,4 +1,21 @@
-import type { BrainstormNode, BrainstormEdge } from '../types';
+import type { BrainstormNode, BrainstormNodeData, BrainstormEdge, PlacementBranch, ClusteringSettings } from '../types';
+import { isCrossLink, getTreeEdges } from './edges';
+
+// Settings auto-organize was tuned with (all-MiniLM-L6-v2)
+export const DEFAULT_CLUSTERING: ClusteringSettings = {
+  strategy: 'hybrid',
+  threshold: 0.4,
+  clusterWeight: 0.7,
+};
+
+// Notes beyond this length would drown out the label in the vector
+export const EMBEDDING_NOTES_MAX_CHARS = 1000;
+
+// Text a node is embedded from: its label, plus the start of its notes
+export function getEmbeddingText(data: Pick<BrainstormNodeData, 'label' | 'notes'>): string {
+  const notes = data.notes?.trim().slice(0, EMBEDDING_NOTES_MAX_CHARS);
+  return notes ? `${data.label}\n\n${notes}` : data.label;
+}
 
 // Cosine similarity between two vectors
 export function cosineSimilarity(vecA: number[], vecB: number[]): number {
@@ -46,12 +63,13 @@ export function computeCentroid(vectors: number[][]): number[] {
   return centroid;
 }
 
-// Build a children map from edges
+// Build a children map from edges (cross-links are not part of the hierarchy)
 function buildChildrenMap(
   edges: BrainstormEdge[]
 ): Map<string, Set<string>> {
   const childrenMap = new Map<string, Set<string>>();
   for (const edge of edges) {
+    if (isCrossLink(edge)) continue;
     if (!childrenMap.has(edge.source)) {
       childrenMap.set(edge.source, new Set());
     }
@@ -86,12 +104,36 @@ function getDescendantVectors(
   return vectors;
 }
 
+export interface BestParentResult {
+  node: BrainstormNode | null;
+  similarity: number;
+  branch?: PlacementBranch; // Which rule picked the node, unset when there were no candidates
+}
+
 // Find the best parent node for a new node based on semantic similarity
 export function findBestParent(
   newVector: number[],
   nodes: BrainstormNode[],
-  edges: BrainstormEdge[] = []
-): { node: BrainstormNode | null; similarity: number } {
+  edges: BrainstormEdge[] = [],
+  options: Partial<ClusteringSettings> = {}
+): BestParentResult {
+  const settings = { ...DEFAULT_CLUSTERING, ...options };
+
+  // The other strategies simply take the highest score
+  if (settings.strategy !== 'hybrid') {
+    const scored = scoreCandidates(newVector, nodes, edges, settings);
+    if (scored.length === 0) {
+      return { node: null, similarity: 0 };
+    }
+
+    const best = scored.reduce((a, b) => (b.similarity > a.similarity ? b : a));
+    return {
+      node: best.node,
+      similarity: best.similarity,
+      branch: best.clusterSimilarity !== undefined ? 'cluster' : 'direct',
+    };
+  }
+
   // Skip root in similarity checks
   const candidates = nodes.filter((n) => n.id !== 'root' && n.data.vector);
 
@@ -100,7 +142,7 @@ export function findBestParent(
   }
 
   // Simple case: less than 3 nodes, just use direct similarity
-  if (candidates.length < 3 || edges.length === 0) {
+  if (candidates.length < 3 || getTreeEdges(edges).length === 0) {
     let bestNode: BrainstormNode | null = null;
     let maxSimilarity = -1;
 
@@ -115,7 +157,7 @@ export function findBestParent(
       }
     }
 
-    return { node: bestNode, similarity: maxSimilarity };
+    return { node: bestNode, similarity: maxSimilarity, branch: 'direct' };
   }
 
   // Build hierarchy information
@@ -149,7 +191,7 @@ export function findBestParent(
       const clusterSim = cosineSimilarity(newVector, centroid);
 
       // Score cluster heads primarily by cluster fit
-      const score = clusterSim * 0.7 + directSim * 0.3;
+      const score = clusterSim * settings.clusterWeight + directSim * (1 - settings.clusterWeight);
 
       if (score > bestClusterScore) {
         bestClusterScore = score;
@@ -174,29 +216,95 @@ export function findBestParent(
   if (bestLeaf && bestClusterHead) {
     // If leaf has higher direct similarity, prefer the leaf
     if (bestLeafScore > bestClusterDirectSim) {
-      return { node: bestLeaf, similarity: bestLeafSimilarity };
+      return { node: bestLeaf, similarity: bestLeafSimilarity, branch: 'leaf' };
     }
     // Otherwise use cluster head
-    return { node: bestClusterHead, similarity: bestClusterSimilarity };
+    return { node: bestClusterHead, similarity: bestClusterSimilarity, branch: 'cluster' };
   }
 
   // Only cluster head available
   if (bestClusterHead) {
-    return { node: bestClusterHead, similarity: bestClusterSimilarity };
+    return { node: bestClusterHead, similarity: bestClusterSimilarity, branch: 'cluster' };
   }
 
   // Fall back to leaf node if no good cluster fit
   if (bestLeaf) {
-    return { node: bestLeaf, similarity: bestLeafSimilarity };
+    return { node: bestLeaf, similarity: bestLeafSimilarity, branch: 'leaf' };
   }
 
   // If no leaf, use cluster head anyway
   return {
     node: bestClusterHead,
     similarity: bestClusterSimilarity,
+    branch: 'cluster',
   };
 }
 
+export interface ParentCandidate {
+  node: BrainstormNode;
+  similarity: number; // What the strategy compares: cluster fit for cluster heads, direct otherwise
+  directSimilarity: number;
+  clusterSimilarity?: number; // Only for nodes with children
+}
+
+// Score every possible parent the way the strategy sees it
+function scoreCandidates(
+  newVector: number[],
+  nodes: BrainstormNode[],
+  edges: BrainstormEdge[],
+  { strategy, clusterWeight }: ClusteringSettings
+): ParentCandidate[] {
+  let candidates = nodes.filter((n) => n.id !== 'root' && n.data.vector);
+  if (strategy === 'anchor') {
+    candidates = candidates.filter((n) => n.data.isAnchor);
+  }
+
+  // Hybrid ignores clusters in small or flat graphs, like findBestParent
+  const useClusters =
+    strategy !== 'nearest' &&
+    (strategy !== 'hybrid' || (candidates.length >= 3 && getTreeEdges(edges).length > 0));
+  const childrenMap = buildChildrenMap(edges);
+
+  return candidates.map((node) => {
+    const directSimilarity = cosineSimilarity(newVector, node.data.vector!);
+    if (!useClusters || !childrenMap.get(node.id)?.size) {
+      return { node, similarity: directSimilarity, directSimilarity };
+    }
+
+    const centroid = computeCentroid(getDescendantVectors(node.id, nodes, childrenMap));
+    const clusterSimilarity = cosineSimilarity(newVector, centroid);
+    // Topics are scored like hybrid cluster heads, centroid-only trusts the centroid alone
+    const similarity = strategy === 'anchor'
+      ? clusterSimilarity * clusterWeight + directSimilarity * (1 - clusterWeight)
+      : clusterSimilarity;
+    return { node, similarity, directSimilarity, clusterSimilarity };
+  });
+}
+
+/**
+ * Rank possible parents for a new node. The first entry is the node findBestParent
+ * picks, the others follow by similarity.
+ *
+ * @param limit - Maximum number of candidates to return (default: 5)
+ */
+export function rankParentCandidates(
+  newVector: number[],
+  nodes: BrainstormNode[],
+  edges: BrainstormEdge[] = [],
+  limit: number = 5,
+  options: Partial<ClusteringSettings> = {}
+): ParentCandidate[] {
+  const settings = { ...DEFAULT_CLUSTERING, ...options };
+  const ranked = scoreCandidates(newVector, nodes, edges, settings);
+
+  const best = findBestParent(newVector, nodes, edges, settings).node;
+  ranked.sort(
+    (a, b) => Number(b.node === best) - Number(a.node === best) || b.similarity - a.similarity
+  );
+
+  return ranked.slice(0, limit);
+}
+
 /**
  * Find parent for a new node using production logic.
  * This includes the similarity threshold and anchor redirection logic from graphStore.
@@ -205,16 +313,28 @@ export function findBestParent(
  * @param nodes - All existing nodes in the graph
  * @param edges - All edges in the graph
  * @param similarityThreshold - Minimum similarity to consider a match (default: 0.4)
+ * @param options - Strategy and cluster weighting (default: DEFAULT_CLUSTERING)
  * @returns The parent node to attach to, or null if should attach to root
  */
 export function findParentForNewNode(
   newVector: number[],
   nodes: BrainstormNode[],
   edges: BrainstormEdge[],
-  similarityThreshold: number = 0.4
+  similarityThreshold: number = DEFAULT_CLUSTERING.threshold,
+  options: Partial<ClusteringSettings> = {}
 ): BrainstormNode | null {
-  const result = findBestParent(newVector, nodes, edges);
+  return pickParent(findBestParent(newVector, nodes, edges, options), similarityThreshold);
+}
 
+/**
+ * Apply the similarity threshold to a findBestParent result
+ *
+ * @returns The parent node to attach to, or null if should attach to root
+ */
+export function pickParent(
+  result: BestParentResult,
+  similarityThreshold: number
+): BrainstormNode | null {
   if (result.node && result.similarity > similarityThreshold) {
     // Return the best matching node directly
     // Previously this redirected satellites to their anchors, but that caused
@@ -226,6 +346,24 @@ export function findParentForNewNode(
   return null;
 }
 
+// The node closest to the centroid of a group, used to name a topic without an LLM
+export function findCentralNode(nodes: BrainstormNode[]): BrainstormNode | null {
+  const withVectors = nodes.filter((n) => n.data.vector);
+  if (withVectors.length === 0) return null;
+
+  const centroid = computeCentroid(withVectors.map((n) => n.data.vector!));
+  let best = withVectors[0]!;
+  let bestSimilarity = -Infinity;
+  for (const node of withVectors) {
+    const similarity = cosineSimilarity(centroid, node.data.vector!);
+    if (similarity > bestSimilarity) {
+      best = node;
+      bestSimilarity = similarity;
+    }
+  }
+  return best;
+}
+
 // Find all nodes similar to a query
 export function findSimilarNodes(
   queryVector: number[],
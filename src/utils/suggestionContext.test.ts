@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { buildSuggestionContext, estimateTokens } from './suggestionContext';
+import { createTreeEdge } from './edges';
+import { makeNode } from './testUtils';
+
+describe('buildSuggestionContext', () => {
+  const nodes = [
+    makeNode('root', { label: 'Idle Game' }),
+    makeNode('mining', { label: 'Mining' }),
+    makeNode('copper', { label: 'Copper' }),
+    makeNode('iron', { label: 'Iron' }),
+    makeNode('smelting', { label: 'Smelting' }),
+    makeNode('audio', { label: 'Audio' }),
+  ];
+  const edges = [
+    createTreeEdge('root', 'mining', '#fff', true),
+    createTreeEdge('mining', 'copper', '#fff', false),
+    createTreeEdge('mining', 'iron', '#fff', false),
+    createTreeEdge('copper', 'smelting', '#fff', false),
+    createTreeEdge('root', 'audio', '#fff', true),
+  ];
+
+  it('should describe where the focused node sits', () => {
+    expect(buildSuggestionContext(nodes, edges, 'copper')).toEqual({
+      root: 'Idle Game',
+      path: ['Mining', 'Copper'],
+      topics: ['Mining', 'Audio'],
+      siblings: ['Iron'],
+      children: ['Smelting'],
+    });
+  });
+
+  it('should use an empty path for the root', () => {
+    const context = buildSuggestionContext(nodes, edges, 'root');
+    expect(context.path).toEqual([]);
+    expect(context.siblings).toEqual([]);
+    expect(context.children).toEqual(['Mining', 'Audio']);
+  });
+
+  it('should trim the longest lists first to fit the token budget', () => {
+    const many = [...nodes, ...Array.from({ length: 40 }, (_, i) => makeNode(`t${i}`, { label: `Topic number ${i}` }))];
+    const manyEdges = [...edges, ...many.slice(nodes.length).map((n) => createTreeEdge('root', n.id, '#fff', true))];
+    const context = buildSuggestionContext(many, manyEdges, 'copper', 100);
+
+    expect(estimateTokens(context)).toBeLessThanOrEqual(100);
+    expect(context.topics.length).toBeLessThan(42);
+    expect(context.path).toEqual(['Mining', 'Copper']);
+    expect(context.children).toEqual(['Smelting']);
+  });
+});
@@ -0,0 +1,59 @@
+import type { BrainstormNode, BrainstormEdge, SuggestionContext } from '../types';
+import { getTreeEdges } from './edges';
+
+// Rough budget for the context part of a suggestion prompt
+export const SUGGESTION_CONTEXT_TOKENS = 300;
+
+const MAX_LABEL_LENGTH = 60;
+
+// ~4 characters per token is close enough for trimming
+export function estimateTokens(context: SuggestionContext): number {
+  return Math.ceil(JSON.stringify(context).length / 4);
+}
+
+/**
+ * Describe the focused node's place in the graph for /api/suggest: root, path,
+ * topics, siblings and children. Lists are trimmed (longest first, then the middle
+ * of the path) until the context fits `tokenBudget`.
+ */
+export function buildSuggestionContext(
+  nodes: BrainstormNode[],
+  edges: BrainstormEdge[],
+  focusedId: string,
+  tokenBudget: number = SUGGESTION_CONTEXT_TOKENS
+): SuggestionContext {
+  const treeEdges = getTreeEdges(edges);
+  const parentOf = new Map(treeEdges.map((e) => [e.target, e.source]));
+  const labelOf = (id: string) => (nodes.find((n) => n.id === id)?.data.label ?? '').slice(0, MAX_LABEL_LENGTH);
+  const childIds = (id: string) => treeEdges.filter((e) => e.source === id).map((e) => e.target);
+
+  const path: string[] = [];
+  for (let id: string | undefined = focusedId; id && id !== 'root'; id = parentOf.get(id)) {
+    path.unshift(labelOf(id));
+  }
+  const parentId = parentOf.get(focusedId);
+
+  const context: SuggestionContext = {
+    root: labelOf('root'),
+    path,
+    topics: childIds('root').map(labelOf),
+    siblings: parentId ? childIds(parentId).filter((id) => id !== focusedId).map(labelOf) : [],
+    children: childIds(focusedId).map(labelOf),
+  };
+
+  while (estimateTokens(context) > tokenBudget) {
+    const longest = (['topics', 'siblings', 'children'] as const).reduce((a, b) =>
+      context[b].length > context[a].length ? b : a
+    );
+    if (context[longest].length > 0) {
+      context[longest].pop();
+    } else if (context.path.length > 2) {
+      // Keep the topic and the focused node, drop what's in between
+      context.path.splice(1, 1);
+    } else {
+      break;
+    }
+  }
+
+  return context;
+}
@@ -0,0 +1,28 @@
+import type { BrainstormNode, BrainstormNodeData } from '../types';
+
+/**
+ * Satellite node fixture for unit tests, labelled with its id unless data says otherwise.
+ * Tests pass hand-made vectors in data, so they don't need an embedding model.
+ */
+export function makeNode(id: string, data: Partial<BrainstormNodeData> = {}): BrainstormNode {
+  return {
+    id,
+    type: 'satellite',
+    position: { x: 0, y: 0 },
+    data: { label: id, createdAt: 0, ...data },
+  };
+}
+
+/**
+ * Give persisted stores an in-memory localStorage (Bun has none). Call it before importing them.
+ */
+export function installMemoryLocalStorage(): void {
+  const stored = new Map<string, string>();
+  Object.assign(globalThis, {
+    localStorage: {
+      getItem: (key: string) => stored.get(key) ?? null,
+      setItem: (key: string, value: string) => stored.set(key, value),
+      removeItem: (key: string) => stored.delete(key),
+    },
+  });
+}